@@ -1,15 +1,32 @@
 import { useState, useMemo } from 'react'
-import { useNavigate, useLocation } from 'react-router-dom'
-import { useMovies, useChatbot, useFavorites } from './hooks'
-import type { Movie } from './types'
+import { matchPath, useLocation, useMatch, useNavigate, type Location } from 'react-router-dom'
+import { useMovies, useChatbot, useFavorites, useFavoriteMovies, useMovieDetails, useMovieFilters, useWatchlists, useWatched, useFavoritesTransfer, useSharedFavorites } from './hooks'
+import type { Movie, FavoritesSort } from './types'
 import {
   AuthModal,
   GuestPromptModal,
   Navbar,
   GenrePills,
   FavoritesHeader,
+  FavoritesTransfer,
+  MergeSummaryBanner,
+  VerifyEmailBanner,
+  VerifyEmailPage,
+  ResetPasswordPage,
+  AuthCallbackPage,
+  AccountPage,
+  OAuthCallbackPage,
+  ShareFavoritesPanel,
+  SharedFavoritesHeader,
+  WatchlistsOverview,
+  WatchlistHeader,
+  WatchedHeader,
   MovieGrid,
+  BrowseModeToggle,
+  FilterPanel,
+  SelectedGenres,
   MovieModal,
+  MovieModalStatus,
   LoadingSkeleton,
   EmptyState,
   Pagination,
@@ -17,30 +34,61 @@ import {
   Footer
 } from './components'
 
+// Stable empty ID list for when no list page is open
+const NO_MOVIES: string[] = []
+
 function App() {
   const navigate = useNavigate()
   const location = useLocation()
-  const isOnFavoritesPage = location.pathname === '/favorites'
+  // Movie detail route - rendered as a modal over the page it was opened from
+  const movieMatch = useMatch('/movie/:id')
+  const routeMovieId = movieMatch?.params.id ?? null
+  const backgroundLocation = (location.state as { background?: Location } | null)?.background
+  // Page shown behind the modal (or the current page)
+  const pagePath = backgroundLocation?.pathname ?? location.pathname
+  const isOnFavoritesPage = pagePath === '/favorites'
+  const isOnListsPage = pagePath === '/lists'
+  const isOnWatchedPage = pagePath === '/watched'
+  const activeListId = matchPath('/lists/:listId', pagePath)?.params.listId ?? null
+  // Someone's public favorites collection
+  const shareToken = matchPath('/share/:token', pagePath)?.params.token ?? null
+  // Favorites, list, watched and shared pages show saved movies instead of browse results
+  const isOnSavedPage = isOnFavoritesPage || isOnWatchedPage || !!activeListId || !!shareToken
+  // Account pages (password reset, magic link sign-in) replace the movie grid entirely
+  const isOnAccountPage = pagePath === '/reset-password' || pagePath === '/auth/callback' ||
+    pagePath === '/auth/oauth/success' || pagePath === '/auth/oauth/failure' || pagePath === '/account' || pagePath === '/verify-email'
+  const isBrowsePage = !isOnSavedPage && !isOnListsPage && !isOnAccountPage
+  // Pages that show a grid of movies
+  const hasMovieGrid = isBrowsePage || isOnSavedPage
 
   // Movies hook
   const {
-    token,
     movies,
     loading,
     loadingDetails,
     error,
     searchQuery,
     setSearchQuery,
-    selectedGenre,
-    setSelectedGenre,
+    selectedGenres,
+    toggleGenre,
+    selectGenre,
+    genreMatch,
+    setGenreMatch,
     totalPages,
     totalResults,
+    resultsTruncated,
     currentPage,
     imageErrors,
     handleImageError,
+    prioritizeMovie,
     handlePageChange,
     pageNumbers,
-    fetchMovies,
+    browseMode,
+    setBrowseMode,
+    loadMore,
+    hasMore,
+    loadingMore,
+    loadMoreError,
     refetch
   } = useMovies()
 
@@ -50,45 +98,128 @@ function App() {
     authLoading,
     cloudFavorites,
     favorites,
+    sortedFavorites,
+    favoritesSort,
+    setFavoritesSort,
+    loadingMoreFavorites,
+    favoritesShare,
+    shareFavorites,
+    revokeFavoritesShare,
+    verificationRequired,
+    sendVerificationEmail,
+    favoriteSyncStatus,
     toggleFavorite,
     logout,
     guestPromptOpen,
     closeGuestPrompt,
-    handleContinueAsGuest
+    handleContinueAsGuest,
+    merging,
+    mergeSummary,
+    retryMerge,
+    dismissMergeSummary
   } = useFavorites(movies)
 
+  // Favorites page data - resolves every saved ID, not just the current page
+  const favoriteMovies = useFavoriteMovies(sortedFavorites, isOnFavoritesPage)
+  const favoritesTransfer = useFavoritesTransfer()
+
+  // Watchlists hook
+  const {
+    watchlists,
+    loading: watchlistsLoading,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    addToWatchlist,
+    removeFromWatchlist
+  } = useWatchlists()
+  const activeList = watchlists.find(l => l.id === activeListId) ?? null
+  const listMovies = useFavoriteMovies(activeList?.movieIds ?? NO_MOVIES, !!activeList)
+
+  // Watched history hook
+  const { watched, watchedById, loading: watchedLoading, saveWatched, removeWatched } = useWatched()
+  const watchedIds = useMemo(() => watched.map(e => e.movieId), [watched])
+  const watchedMovies = useFavoriteMovies(watchedIds, isOnWatchedPage)
+
+  // Public shared favorites (/share/:token)
+  const sharedFavorites = useSharedFavorites(shareToken)
+  const sharedMovies = useFavoriteMovies(sharedFavorites.movieIds, !!shareToken)
+
   // Auth modal state
   const [authModalOpen, setAuthModalOpen] = useState(false)
-  const [authModalMode, setAuthModalMode] = useState<'login' | 'signup'>('login')
+  const [authModalMode, setAuthModalMode] = useState<'login' | 'signup' | 'forgot' | 'magic'>('login')
+  // Verification banner closed for this user (until the next page load)
+  const [dismissedVerifyBanner, setDismissedVerifyBanner] = useState<string | null>(null)
 
   // Selected movie for modal
-  const [selectedMovie, setSelectedMovie] = useState<Movie | null>(null)
+  const movieDetails = useMovieDetails(routeMovieId)
 
   // Chatbot hook
   const chatbot = useChatbot({
     movies,
-    setSelectedGenre: (genre: string) => setSelectedGenre(genre),
-    token,
-    fetchMovies,
-    searchQuery,
-    navigate
+    setSelectedGenre: selectGenre
   })
 
-  // Filtered movies for display
-  const displayMovies = useMemo(() => 
-    isOnFavoritesPage 
-      ? movies.filter(m => favorites.includes(m.id))
-      : movies,
-    [isOnFavoritesPage, movies, favorites]
-  )
+  // Client-side sort and filters for the browse grid
+  const movieFilters = useMovieFilters(movies)
+
+  // Active data source for display
+  const savedMovies = shareToken
+    ? sharedMovies
+    : activeListId ? listMovies : isOnWatchedPage ? watchedMovies : favoriteMovies
+  const listNotFound = !!activeListId && !watchlistsLoading && !activeList
+  const displayMovies = isOnSavedPage ? savedMovies.movies : movieFilters.filteredMovies
+  const pageLoading = isOnSavedPage
+    ? savedMovies.loading ||
+      (!!activeListId && watchlistsLoading) ||
+      (isOnWatchedPage && watchedLoading) ||
+      (!!shareToken && sharedFavorites.loading)
+    : loading
+  const pageError = listNotFound
+    ? 'List not found'
+    : shareToken && sharedFavorites.error ? sharedFavorites.error
+    : isOnSavedPage ? savedMovies.error : error
+  const isInfiniteScroll = isBrowsePage && browseMode === 'infinite'
 
   // Check if this is the landing page (for special loading screen)
-  const isLandingPage = !searchQuery && !selectedGenre && currentPage === 1 && !isOnFavoritesPage
+  const isLandingPage = !searchQuery && selectedGenres.length === 0 && currentPage === 1 && isBrowsePage
+
+  // Movie shown in the modal - prefer full details, fall back to the grid entry
+  const selectedMovie = movieDetails.movie || displayMovies.find(m => m.id === routeMovieId) || null
 
   // Handlers
-  const handleGenreChange = (genre: string) => {
-    setSelectedGenre(genre)
-    if (isOnFavoritesPage) navigate('/')
+  const openMovie = (movie: Movie) => {
+    navigate(`/movie/${encodeURIComponent(movie.id)}`, { state: { background: location } })
+  }
+
+  const closeMovie = () => {
+    if (backgroundLocation) {
+      navigate(-1)
+    } else {
+      navigate('/')
+    }
+  }
+
+  // Add or remove a movie from one of the user's lists
+  const toggleWatchlistMovie = (listId: string, movie: Movie) => {
+    const list = watchlists.find(l => l.id === listId)
+    if (list?.movieIds.includes(movie.id)) {
+      removeFromWatchlist(listId, movie.id)
+    } else {
+      addToWatchlist(listId, movie)
+    }
+  }
+
+  // A new order starts from the first page
+  const handleFavoritesSortChange = (sort: FavoritesSort) => {
+    setFavoritesSort(sort)
+    favoriteMovies.handlePageChange(1)
+  }
+
+  const handleDeleteList = async () => {
+    if (!activeListId) return
+    await deleteWatchlist(activeListId)
+    navigate('/lists')
   }
 
   const handleSignIn = () => {
@@ -101,6 +232,16 @@ function App() {
     setAuthModalOpen(true)
   }
 
+  const handleForgotPassword = () => {
+    setAuthModalMode('forgot')
+    setAuthModalOpen(true)
+  }
+
+  const handleMagicLink = () => {
+    setAuthModalMode('magic')
+    setAuthModalOpen(true)
+  }
+
   return (
     <div className="min-h-screen bg-zinc-950 text-white">
       {/* Navbar */}
@@ -109,6 +250,8 @@ function App() {
           searchQuery={searchQuery}
           onSearchChange={setSearchQuery}
           isOnFavoritesPage={isOnFavoritesPage}
+          isOnListsPage={isOnListsPage || !!activeListId}
+          isOnWatchedPage={isOnWatchedPage}
           favorites={favorites}
           user={user}
           authLoading={authLoading}
@@ -117,60 +260,242 @@ function App() {
           onSignIn={handleSignIn}
         />
         <GenrePills
-          selectedGenre={selectedGenre}
-          isOnFavoritesPage={isOnFavoritesPage}
-          onGenreSelect={handleGenreChange}
+          selectedGenres={selectedGenres}
+          isOnFavoritesPage={!isBrowsePage}
+          onGenreSelect={toggleGenre}
         />
       </nav>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 py-6">
+        {/* Unverified email reminder */}
+        {user && !user.emailVerification && dismissedVerifyBanner !== user.$id && pagePath !== '/verify-email' && (
+          <VerifyEmailBanner
+            email={user.email}
+            featuresLocked={verificationRequired}
+            onResend={sendVerificationEmail}
+            onDismiss={() => setDismissedVerifyBanner(user.$id)}
+          />
+        )}
+
+        {/* Guest favorites merge result */}
+        {mergeSummary && (
+          <MergeSummaryBanner
+            summary={mergeSummary}
+            retrying={merging}
+            onRetry={retryMerge}
+            onDismiss={dismissMergeSummary}
+          />
+        )}
+
         {/* Favorites Page Header */}
         {isOnFavoritesPage && (
           <FavoritesHeader
             user={user}
             authLoading={authLoading}
             favoritesCount={favorites.length}
+            loadingMore={loadingMoreFavorites}
+            sort={favoritesSort}
+            onSortChange={handleFavoritesSortChange}
             onSignUp={handleSignUp}
           />
         )}
+        {isOnFavoritesPage && (
+          <FavoritesTransfer
+            hasFavorites={favorites.length > 0}
+            importing={favoritesTransfer.importing}
+            importResult={favoritesTransfer.importResult}
+            importError={favoritesTransfer.importError}
+            onExport={favoritesTransfer.exportFavorites}
+            onImport={favoritesTransfer.importFavorites}
+            onDismiss={favoritesTransfer.dismissImport}
+          />
+        )}
+        {isOnFavoritesPage && user && (
+          <ShareFavoritesPanel
+            share={favoritesShare}
+            locked={verificationRequired}
+            onShare={shareFavorites}
+            onRevoke={revokeFavoritesShare}
+          />
+        )}
+
+        {/* Shared Favorites Header */}
+        {shareToken && (
+          <SharedFavoritesHeader
+            share={sharedFavorites.share}
+            favoritesCount={sharedFavorites.movieIds.length}
+            copiedCount={sharedFavorites.copiedCount}
+            onCopyAll={sharedFavorites.copyToMyFavorites}
+          />
+        )}
+
+        {/* Watched Page Header */}
+        {isOnWatchedPage && (
+          <WatchedHeader
+            user={user}
+            authLoading={authLoading}
+            watchedCount={watched.length}
+            onSignIn={handleSignIn}
+          />
+        )}
+
+        {/* Lists Overview */}
+        {isOnListsPage && (
+          <WatchlistsOverview
+            watchlists={watchlists}
+            loading={watchlistsLoading}
+            user={user}
+            authLoading={authLoading}
+            onCreate={createWatchlist}
+            onSignIn={handleSignIn}
+          />
+        )}
+
+        {/* List Page Header */}
+        {activeList && (
+          <WatchlistHeader
+            key={activeList.id}
+            list={activeList}
+            onRename={(name) => renameWatchlist(activeList.id, name)}
+            onDelete={handleDeleteList}
+          />
+        )}
 
-        {/* Mobile Results Count */}
-        {!loading && totalResults > 0 && !isOnFavoritesPage && (
-          <p className="lg:hidden text-sm text-zinc-400 mb-4">
-            <span className="text-white font-medium">{totalResults.toLocaleString()}</span> movies
-            {selectedGenre && <span> in <span className="text-red-400">{selectedGenre}</span></span>}
+        {/* Selected Genres */}
+        {isBrowsePage && selectedGenres.length > 0 && (
+          <SelectedGenres
+            genres={selectedGenres}
+            match={genreMatch}
+            onRemove={toggleGenre}
+            onClear={() => selectGenre('')}
+            onMatchChange={setGenreMatch}
+          />
+        )}
+
+        {/* Capped multi-genre results */}
+        {!loading && !error && isBrowsePage && resultsTruncated && (
+          <p className="mb-4 text-xs text-amber-300">
+            Some of these genres have too many movies to combine completely, so a few matches may be missing.
+            Add a search term to narrow them down.
           </p>
         )}
 
+        {/* Results Toolbar */}
+        {!loading && !error && isBrowsePage && (
+          <div className="flex items-center justify-between gap-4 mb-4">
+            {/* Mobile Results Count */}
+            {totalResults > 0 && (
+              <p className="lg:hidden text-sm text-zinc-400">
+                <span className="text-white font-medium">{totalResults.toLocaleString()}</span> movies
+                {selectedGenres.length > 0 && (
+                  <span> in <span className="text-red-400">{selectedGenres.join(genreMatch === 'all' ? ' & ' : ' or ')}</span></span>
+                )}
+              </p>
+            )}
+            {movieFilters.activeFilterCount > 0 && (
+              <p className="text-sm text-zinc-400">
+                Showing <span className="text-white font-medium">{movieFilters.filteredMovies.length}</span> of {movies.length} loaded movies
+              </p>
+            )}
+            <div className="ml-auto flex items-center gap-2">
+              <FilterPanel
+                filters={movieFilters.filters}
+                activeFilterCount={movieFilters.activeFilterCount}
+                ratingOptions={movieFilters.ratingOptions}
+                onChange={movieFilters.updateFilters}
+                onReset={movieFilters.resetFilters}
+              />
+              <BrowseModeToggle mode={browseMode} onChange={setBrowseMode} />
+            </div>
+          </div>
+        )}
+
+        {/* Password Reset Page */}
+        {pagePath === '/reset-password' && (
+          <ResetPasswordPage onSignIn={handleSignIn} onForgotPassword={handleForgotPassword} />
+        )}
+
+        {/* Magic Link Sign-in */}
+        {pagePath === '/auth/callback' && <AuthCallbackPage onRequestNewLink={handleMagicLink} />}
+        {pagePath === '/auth/oauth/success' && <OAuthCallbackPage outcome="success" onSignIn={handleSignIn} />}
+        {pagePath === '/auth/oauth/failure' && <OAuthCallbackPage outcome="failure" onSignIn={handleSignIn} />}
+
+        {pagePath === '/account' && <AccountPage onSignIn={handleSignIn} />}
+        {pagePath === '/verify-email' && <VerifyEmailPage onSignIn={handleSignIn} />}
+
         {/* Error State */}
-        {error && (
-          <EmptyState type="error" message={error} onRetry={refetch} />
+        {!isOnAccountPage && pageError && (
+          <EmptyState
+            type="error"
+            message={pageError}
+            onRetry={
+              listNotFound ? undefined
+                : shareToken && sharedFavorites.error ? (sharedFavorites.share ? sharedFavorites.retry : undefined)
+                : isOnSavedPage ? savedMovies.retry : refetch
+            }
+          />
         )}
 
         {/* Loading State */}
-        {loading && !error && <LoadingSkeleton isLandingPage={isLandingPage} />}
+        {hasMovieGrid && pageLoading && !pageError && <LoadingSkeleton isLandingPage={isLandingPage} />}
+
+        {/* Some saved movies failed to load */}
+        {hasMovieGrid && isOnSavedPage && !pageLoading && !pageError && savedMovies.failedCount > 0 && (
+          <div
+            role="status"
+            className="mb-6 p-3 rounded-xl border text-sm bg-amber-500/10 border-amber-500/20 text-amber-200"
+          >
+            {savedMovies.failedCount} movie{savedMovies.failedCount === 1 ? '' : 's'} on this page couldn't be loaded.{' '}
+            <button
+              onClick={savedMovies.retry}
+              className="text-red-400 hover:text-red-300 cursor-pointer transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        )}
 
         {/* Movies Grid */}
-        {!loading && !error && displayMovies.length > 0 && (
+        {hasMovieGrid && !pageLoading && !pageError && displayMovies.length > 0 && (
           <MovieGrid
             movies={displayMovies}
             favorites={favorites}
+            favoriteSyncStatus={favoriteSyncStatus}
             imageErrors={imageErrors}
             loadingDetails={loadingDetails}
-            onMovieSelect={setSelectedMovie}
+            onMovieSelect={openMovie}
             onToggleFavorite={toggleFavorite}
             onImageError={handleImageError}
+            onMovieVisible={prioritizeMovie}
+            watched={watchedById}
+            watchlists={watchlists}
+            onToggleWatchlist={toggleWatchlistMovie}
+            onCreateWatchlist={createWatchlist}
+            onLoadMore={isInfiniteScroll ? loadMore : undefined}
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            loadMoreError={loadMoreError}
           />
         )}
 
         {/* Empty State */}
-        {!loading && !error && displayMovies.length === 0 && (
-          <EmptyState type={isOnFavoritesPage ? 'no-favorites' : 'no-movies'} />
+        {hasMovieGrid && !pageLoading && !pageError && displayMovies.length === 0 && (
+          <EmptyState
+            type={isOnFavoritesPage || shareToken ? 'no-favorites' : isOnWatchedPage ? 'no-watched' : activeListId ? 'empty-list' : 'no-movies'}
+          />
         )}
 
         {/* Pagination */}
-        {!loading && !isOnFavoritesPage && (
+        {hasMovieGrid && !pageLoading && (isOnSavedPage ? (
+          <Pagination
+            currentPage={savedMovies.currentPage}
+            totalPages={savedMovies.totalPages}
+            totalResults={savedMovies.totalResults}
+            pageNumbers={savedMovies.pageNumbers}
+            onPageChange={savedMovies.handlePageChange}
+          />
+        ) : !isInfiniteScroll && (
           <Pagination
             currentPage={currentPage}
             totalPages={totalPages}
@@ -178,20 +503,33 @@ function App() {
             pageNumbers={pageNumbers}
             onPageChange={handlePageChange}
           />
-        )}
+        ))}
       </main>
 
       {/* Movie Modal */}
-      {selectedMovie && (
+      {routeMovieId && (selectedMovie ? (
         <MovieModal
           movie={selectedMovie}
           isFavorite={favorites.includes(selectedMovie.id)}
           hasImageError={imageErrors.has(selectedMovie.id)}
-          onClose={() => setSelectedMovie(null)}
+          onClose={closeMovie}
           onToggleFavorite={() => toggleFavorite(selectedMovie.id)}
           onImageError={() => handleImageError(selectedMovie.id)}
+          watchlists={watchlists}
+          onToggleWatchlist={(listId) => toggleWatchlistMovie(listId, selectedMovie)}
+          onCreateWatchlist={(name) => createWatchlist(name, selectedMovie)}
+          watchedEntry={watchedById.get(selectedMovie.id)}
+          onSaveWatched={(changes) => saveWatched(selectedMovie, changes)}
+          onRemoveWatched={() => removeWatched(selectedMovie.id)}
+        />
+      ) : (
+        <MovieModalStatus
+          type={movieDetails.loading ? 'loading' : movieDetails.notFound ? 'not-found' : 'error'}
+          message={movieDetails.error ?? undefined}
+          onClose={closeMovie}
+          onRetry={movieDetails.retry}
         />
-      )}
+      ))}
 
       {/* Chatbot */}
       <Chatbot
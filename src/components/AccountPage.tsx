@@ -0,0 +1,445 @@
+import { memo, useState, type ReactNode } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../context/AuthContext'
+import { useSessions, useIdentities } from '../hooks'
+import type { AccountSession } from '../lib/appwrite'
+import { MIN_PASSWORD_LENGTH, MIN_PASSWORD_SCORE, OAUTH_PROVIDERS } from '../constants'
+import { getPasswordStrength, getOAuthProviderName } from '../utils'
+import PasswordStrengthMeter from './PasswordStrengthMeter'
+
+interface AccountPageProps {
+  onSignIn: () => void
+}
+
+type FormStatus = { type: 'success' | 'error'; message: string } | null
+
+// Typed to confirm account deletion
+const DELETE_CONFIRMATION = 'DELETE'
+
+const inputClassName = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-red-500/50 focus:bg-white/10 transition-all duration-200'
+const submitClassName = 'px-4 py-2.5 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 disabled:from-red-500/50 disabled:to-orange-500/50 text-sm text-white font-semibold rounded-xl cursor-pointer disabled:cursor-default transition-all'
+const buttonClassName = 'px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-xs font-medium text-zinc-300 border border-white/10 cursor-pointer disabled:opacity-50 disabled:cursor-default transition'
+
+const getErrorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : 'An error occurred. Please try again.'
+
+const Section = ({ title, description, children }: { title: string; description: string; children: ReactNode }) => (
+  <section className="bg-white/5 border border-white/10 rounded-2xl p-5 sm:p-6">
+    <h3 className="text-base font-semibold text-white">{title}</h3>
+    <p className="text-sm text-zinc-500 mt-1 mb-4">{description}</p>
+    {children}
+  </section>
+)
+
+const StatusMessage = ({ status }: { status: FormStatus }) => status && (
+  <div className={`p-3 rounded-xl border text-sm ${
+    status.type === 'error' ? 'bg-red-500/10 border-red-500/20 text-red-400' : 'bg-green-500/10 border-green-500/20 text-green-400'
+  }`}>
+    {status.message}
+  </div>
+)
+
+const describeSession = (session: AccountSession) => {
+  const client = [session.clientName, session.osName].filter(Boolean).join(' on ') || 'Unknown device'
+  return session.deviceName ? `${client} (${session.deviceName})` : client
+}
+
+// Account settings (/account): profile, email, password, connected accounts, sessions and deletion
+const AccountPage = memo(({ onSignIn }: AccountPageProps) => {
+  const navigate = useNavigate()
+  const { user, loading: authLoading, updateName, updateEmail, updatePassword, deleteAccount, signInWithOAuth } = useAuth()
+  const { sessions, loading: sessionsLoading, error: sessionsError, revoking, revokeSession, revokeOtherSessions } = useSessions()
+  const { identities, loading: identitiesLoading, error: identitiesError, unlinking, unlinkIdentity } = useIdentities()
+
+  const [name, setName] = useState<string | null>(null)
+  const [nameStatus, setNameStatus] = useState<FormStatus>(null)
+  const [savingName, setSavingName] = useState(false)
+
+  const [email, setEmail] = useState('')
+  const [emailPassword, setEmailPassword] = useState('')
+  const [emailStatus, setEmailStatus] = useState<FormStatus>(null)
+  const [savingEmail, setSavingEmail] = useState(false)
+
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [passwordStatus, setPasswordStatus] = useState<FormStatus>(null)
+  const [savingPassword, setSavingPassword] = useState(false)
+
+  const [sessionsStatus, setSessionsStatus] = useState<FormStatus>(null)
+  const [identitiesStatus, setIdentitiesStatus] = useState<FormStatus>(null)
+
+  const [deleteText, setDeleteText] = useState('')
+  const [deleteStatus, setDeleteStatus] = useState<FormStatus>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  if (authLoading) {
+    return <div className="py-20 text-center text-sm text-zinc-500">Loading your account...</div>
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-md mx-auto py-10 text-center space-y-4">
+        <h2 className="text-xl font-semibold">Account</h2>
+        <p className="text-sm text-zinc-400">Sign in to manage your profile, password and devices.</p>
+        <button onClick={onSignIn} className={submitClassName}>Sign In</button>
+      </div>
+    )
+  }
+
+  // Untouched field shows the current name
+  const nameValue = name ?? user.name
+  const strength = getPasswordStrength(newPassword)
+  const passwordMismatch = confirmPassword.length > 0 && newPassword !== confirmPassword
+  const otherSessions = sessions.filter(session => !session.current)
+  // Without a password, the only connected provider is the only way back in
+  const lastSignInMethod = !user.hasPassword && identities.length === 1
+  // Configured providers that aren't linked yet
+  const linkableProviders = OAUTH_PROVIDERS.filter(provider => !identities.some(identity => identity.provider === provider))
+
+  const handleNameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingName(true)
+    setNameStatus(null)
+    try {
+      await updateName(nameValue.trim())
+      setName(null)
+      setNameStatus({ type: 'success', message: 'Display name updated' })
+    } catch (err) {
+      setNameStatus({ type: 'error', message: getErrorMessage(err) })
+    } finally {
+      setSavingName(false)
+    }
+  }
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingEmail(true)
+    setEmailStatus(null)
+    try {
+      await updateEmail(email.trim(), emailPassword)
+      setEmail('')
+      setEmailPassword('')
+      setEmailStatus({ type: 'success', message: 'Email updated - check your inbox to verify the new address' })
+    } catch (err) {
+      setEmailStatus({ type: 'error', message: getErrorMessage(err) })
+    } finally {
+      setSavingEmail(false)
+    }
+  }
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (strength.score < MIN_PASSWORD_SCORE) {
+      setPasswordStatus({ type: 'error', message: 'Please choose a stronger password - mix letters, numbers and symbols' })
+      return
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordStatus({ type: 'error', message: 'Passwords do not match' })
+      return
+    }
+
+    setSavingPassword(true)
+    setPasswordStatus(null)
+    const hadPassword = user.hasPassword
+    try {
+      await updatePassword(newPassword, hadPassword ? currentPassword : undefined)
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+      setPasswordStatus({ type: 'success', message: hadPassword ? 'Password changed' : 'Password set - you can now sign in with your email too' })
+    } catch (err) {
+      setPasswordStatus({ type: 'error', message: getErrorMessage(err) })
+    } finally {
+      setSavingPassword(false)
+    }
+  }
+
+  const handleRevoke = async (action: () => Promise<boolean>) => {
+    setSessionsStatus(null)
+    if (!await action()) {
+      setSessionsStatus({ type: 'error', message: 'Could not sign out that session. Please try again.' })
+    }
+  }
+
+  const handleUnlink = async (identityId: string) => {
+    setIdentitiesStatus(null)
+    if (!await unlinkIdentity(identityId)) {
+      setIdentitiesStatus({ type: 'error', message: 'Could not disconnect that account. Please try again.' })
+    }
+  }
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (deleteText !== DELETE_CONFIRMATION) return
+    setDeleting(true)
+    setDeleteStatus(null)
+    try {
+      await deleteAccount()
+      navigate('/', { replace: true })
+    } catch (err) {
+      setDeleting(false)
+      setDeleteStatus({ type: 'error', message: getErrorMessage(err) })
+    }
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Account</h2>
+        <p className="text-sm text-zinc-500 mt-1">
+          Signed in as {user.email}
+          {!user.emailVerification && <span className="ml-2 text-xs text-amber-300">(not verified)</span>}
+        </p>
+      </div>
+
+      {/* Profile */}
+      <Section title="Profile" description="The name shown in the menu and on shared favorites.">
+        <form onSubmit={handleNameSubmit} className="space-y-3">
+          <StatusMessage status={nameStatus} />
+          <input
+            type="text"
+            value={nameValue}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Your name"
+            autoComplete="name"
+            className={inputClassName}
+            required
+          />
+          <button
+            type="submit"
+            disabled={savingName || !nameValue.trim() || nameValue.trim() === user.name}
+            className={submitClassName}
+          >
+            {savingName ? 'Saving...' : 'Save Name'}
+          </button>
+        </form>
+      </Section>
+
+      {/* Email - Appwrite confirms the change with the password, so OAuth-only accounts set one first */}
+      <Section
+        title="Email"
+        description={user.hasPassword
+          ? 'Confirm the change with your current password.'
+          : 'Set a password below first - changing your email needs it to confirm the change.'}
+      >
+        {user.hasPassword && (
+          <form onSubmit={handleEmailSubmit} className="space-y-3">
+            <StatusMessage status={emailStatus} />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="New email"
+              autoComplete="email"
+              className={inputClassName}
+              required
+            />
+            <input
+              type="password"
+              value={emailPassword}
+              onChange={(e) => setEmailPassword(e.target.value)}
+              placeholder="Current password"
+              autoComplete="current-password"
+              className={inputClassName}
+              required
+            />
+            <button
+              type="submit"
+              disabled={savingEmail || !email.trim() || !emailPassword}
+              className={submitClassName}
+            >
+              {savingEmail ? 'Saving...' : 'Change Email'}
+            </button>
+          </form>
+        )}
+      </Section>
+
+      {/* Password */}
+      <Section
+        title="Password"
+        description={user.hasPassword
+          ? 'Use at least 8 characters with a mix of letters, numbers and symbols.'
+          : 'Your account has no password yet. Set one to sign in with your email and to change your email address.'}
+      >
+        <form onSubmit={handlePasswordSubmit} className="space-y-3">
+          <StatusMessage status={passwordStatus} />
+          {user.hasPassword && (
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              placeholder="Current password"
+              autoComplete="current-password"
+              className={inputClassName}
+              required
+            />
+          )}
+          <div className="space-y-2">
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="New password"
+              minLength={MIN_PASSWORD_LENGTH}
+              autoComplete="new-password"
+              className={inputClassName}
+              required
+            />
+            {newPassword && <PasswordStrengthMeter strength={strength} />}
+          </div>
+          <div className="space-y-2">
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              className={inputClassName}
+              required
+            />
+            {passwordMismatch && <p className="text-xs text-red-400 pl-1">Passwords do not match</p>}
+          </div>
+          <button
+            type="submit"
+            disabled={
+              savingPassword || (user.hasPassword && !currentPassword) || strength.score < MIN_PASSWORD_SCORE || newPassword !== confirmPassword
+            }
+            className={submitClassName}
+          >
+            {savingPassword ? 'Saving...' : user.hasPassword ? 'Change Password' : 'Set Password'}
+          </button>
+        </form>
+      </Section>
+
+      {/* Connected accounts */}
+      {(OAUTH_PROVIDERS.length > 0 || identities.length > 0) && (
+        <Section
+          title="Connected Accounts"
+          description="Sign in with these providers as well as your email. Connecting one links it to this account."
+        >
+          <div className="space-y-3">
+            <StatusMessage status={identitiesStatus} />
+            {identitiesLoading ? (
+              <p className="text-sm text-zinc-500">Loading connected accounts...</p>
+            ) : identitiesError ? (
+              <p className="text-sm text-red-400">{identitiesError}</p>
+            ) : (
+              <ul className="divide-y divide-white/5">
+                {identities.map(identity => (
+                  <li key={identity.$id} className="py-3 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm text-white">{getOAuthProviderName(identity.provider)}</p>
+                      {identity.providerEmail && (
+                        <p className="text-xs text-zinc-500 truncate">{identity.providerEmail}</p>
+                      )}
+                      {lastSignInMethod && (
+                        <p className="text-xs text-zinc-500">Set a password before disconnecting your only sign-in method</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleUnlink(identity.$id)}
+                      disabled={unlinking !== null || lastSignInMethod}
+                      className={buttonClassName}
+                    >
+                      {unlinking === identity.$id ? 'Disconnecting...' : 'Disconnect'}
+                    </button>
+                  </li>
+                ))}
+                {linkableProviders.map(provider => (
+                  <li key={provider} className="py-3 flex items-center justify-between gap-3">
+                    <p className="text-sm text-zinc-400">{getOAuthProviderName(provider)}</p>
+                    <button onClick={() => signInWithOAuth(provider, '/account')} className={buttonClassName}>
+                      Connect
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </Section>
+      )}
+
+      {/* Sessions */}
+      <Section title="Sessions" description="Devices and browsers signed in to your account.">
+        <div className="space-y-3">
+          <StatusMessage status={sessionsStatus} />
+          {sessionsLoading ? (
+            <p className="text-sm text-zinc-500">Loading sessions...</p>
+          ) : sessionsError ? (
+            <p className="text-sm text-red-400">{sessionsError}</p>
+          ) : (
+            <ul className="divide-y divide-white/5">
+              {sessions.map(session => (
+                <li key={session.$id} className="py-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white truncate">
+                      {describeSession(session)}
+                      {session.current && (
+                        <span className="ml-2 text-xs text-green-400 bg-green-500/10 px-2 py-0.5 rounded-full">This device</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-zinc-500 truncate">
+                      {[session.countryName, session.ip, `signed in ${new Date(session.$createdAt).toLocaleDateString()}`]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <button
+                      onClick={() => handleRevoke(() => revokeSession(session.$id))}
+                      disabled={revoking !== null}
+                      className={buttonClassName}
+                    >
+                      {revoking === session.$id ? 'Signing out...' : 'Sign out'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {otherSessions.length > 1 && (
+            <button
+              onClick={() => handleRevoke(revokeOtherSessions)}
+              disabled={revoking !== null}
+              className={buttonClassName}
+            >
+              {revoking === 'others' ? 'Signing out...' : 'Sign out all other sessions'}
+            </button>
+          )}
+        </div>
+      </Section>
+
+      {/* Danger zone */}
+      <section className="bg-red-500/5 border border-red-500/20 rounded-2xl p-5 sm:p-6">
+        <h3 className="text-base font-semibold text-red-400">Delete Account</h3>
+        <p className="text-sm text-zinc-400 mt-1 mb-4">
+          Permanently deletes your favorites, lists, watch history and share links, and deactivates your account so it
+          can't be signed in to again. This can't be undone.
+        </p>
+        <form onSubmit={handleDelete} className="space-y-3">
+          <StatusMessage status={deleteStatus} />
+          <input
+            type="text"
+            value={deleteText}
+            onChange={(e) => setDeleteText(e.target.value)}
+            placeholder={`Type ${DELETE_CONFIRMATION} to confirm`}
+            aria-label={`Type ${DELETE_CONFIRMATION} to confirm`}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={deleting || deleteText !== DELETE_CONFIRMATION}
+            className="px-4 py-2.5 bg-red-600 hover:bg-red-700 disabled:bg-red-600/40 text-sm text-white font-semibold rounded-xl cursor-pointer disabled:cursor-default transition-colors"
+          >
+            {deleting ? 'Deleting...' : 'Delete Account'}
+          </button>
+        </form>
+      </section>
+    </div>
+  )
+})
+
+AccountPage.displayName = 'AccountPage'
+
+export default AccountPage
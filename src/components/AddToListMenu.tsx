@@ -0,0 +1,122 @@
+import { memo, useState } from 'react'
+import type { Watchlist } from '../types'
+
+interface AddToListMenuProps {
+  watchlists: Watchlist[]
+  movieId: string
+  // 'card' floats over the poster, 'modal' expands inline
+  variant?: 'card' | 'modal'
+  onToggle: (listId: string) => void
+  onCreate: (name: string) => void
+}
+
+const AddToListMenu = memo(({
+  watchlists,
+  movieId,
+  variant = 'card',
+  onToggle,
+  onCreate
+}: AddToListMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [newListName, setNewListName] = useState('')
+  const inAnyList = watchlists.some(l => l.movieIds.includes(movieId))
+  const isCard = variant === 'card'
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newListName.trim()) return
+    onCreate(newListName)
+    setNewListName('')
+  }
+
+  return (
+    // Keep clicks from reaching the card or modal underneath
+    <div className={isCard ? 'relative' : ''} onClick={(e) => e.stopPropagation()}>
+      {isCard ? (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          aria-label="Add to list"
+          className={`w-8 h-8 flex items-center justify-center rounded-full cursor-pointer transition-all ${
+            inAnyList || isOpen
+              ? 'bg-white text-zinc-900'
+              : 'bg-black/50 text-white/70 sm:opacity-0 sm:group-hover:opacity-100 hover:bg-black/70'
+          }`}
+        >
+          <svg className="w-4 h-4" fill={inAnyList ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+          </svg>
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 rounded-xl text-sm md:text-base font-medium border border-white/10 cursor-pointer transition"
+        >
+          <svg className="w-5 h-5" fill={inAnyList ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+          </svg>
+          {inAnyList ? 'In your lists' : 'Add to list'}
+        </button>
+      )}
+
+      {isOpen && (
+        <>
+          {isCard && <div className="fixed inset-0 z-20 cursor-default" onClick={() => setIsOpen(false)} />}
+          <div className={isCard
+            ? 'absolute right-0 top-full mt-2 w-56 p-2 bg-gradient-to-b from-zinc-800 to-zinc-900 rounded-xl border border-white/10 shadow-2xl z-30 cursor-default'
+            : 'mt-2 p-2 bg-white/5 rounded-xl border border-white/10'
+          }>
+            {watchlists.length === 0 ? (
+              <p className="px-2 py-1.5 text-xs text-zinc-500">No lists yet</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto">
+                {watchlists.map(list => {
+                  const isInList = list.movieIds.includes(movieId)
+                  return (
+                    <button
+                      key={list.id}
+                      onClick={() => onToggle(list.id)}
+                      className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-sm text-zinc-300 hover:bg-white/5 hover:text-white cursor-pointer transition"
+                    >
+                      <span className={`w-4 h-4 shrink-0 flex items-center justify-center rounded border ${
+                        isInList ? 'bg-red-500 border-red-500' : 'border-white/20'
+                      }`}>
+                        {isInList && (
+                          <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                          </svg>
+                        )}
+                      </span>
+                      <span className="truncate">{list.name}</span>
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+
+            {/* New list */}
+            <form onSubmit={handleCreate} className="flex gap-1.5 mt-2 pt-2 border-t border-white/5">
+              <input
+                type="text"
+                placeholder="New list..."
+                value={newListName}
+                onChange={(e) => setNewListName(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white placeholder-zinc-500 focus:outline-none focus:border-red-500/50"
+              />
+              <button
+                type="submit"
+                disabled={!newListName.trim()}
+                className="px-2.5 py-1.5 bg-red-500 hover:bg-red-600 disabled:opacity-50 disabled:hover:bg-red-500 rounded-lg text-xs font-medium cursor-pointer disabled:cursor-default transition"
+              >
+                Add
+              </button>
+            </form>
+          </div>
+        </>
+      )}
+    </div>
+  )
+})
+
+AddToListMenu.displayName = 'AddToListMenu'
+
+export default AddToListMenu
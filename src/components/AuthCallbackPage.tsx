@@ -0,0 +1,135 @@
+import { memo, useEffect, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useAuth } from '../context/AuthContext'
+import { isExpiredTokenError } from '../lib/appwrite'
+import { MAGIC_LINK_TTL_MS } from '../constants'
+import { getReturnPath } from '../utils'
+
+interface AuthCallbackPageProps {
+  onRequestNewLink: () => void
+}
+
+type CallbackStatus = 'verifying' | 'success' | 'expired' | 'used' | 'invalid' | 'error'
+
+// Delay before sending the user back, so the success state is visible
+const REDIRECT_DELAY_MS = 1200
+
+// Magic links are single-use, so share one verification per secret
+// (StrictMode runs effects twice in development)
+const verifications = new Map<string, Promise<void>>()
+
+const messages: Record<CallbackStatus, { title: string; text: string }> = {
+  verifying: { title: 'Signing you in...', text: 'Checking your magic link.' },
+  success: { title: "You're signed in", text: 'Taking you back to where you were...' },
+  expired: { title: 'Link Expired', text: 'Magic links are valid for one hour. Request a new one to sign in.' },
+  used: { title: 'Link Already Used', text: 'Each magic link works once. Request a new one to sign in again.' },
+  invalid: { title: 'Invalid Link', text: "This sign-in link is incomplete. Make sure you opened the full link from the email." },
+  error: { title: 'Sign-in Failed', text: "We couldn't verify your link. Check your connection and try again." }
+}
+
+// Completes a magic link sign-in (/auth/callback?userId=...&secret=...&next=...)
+const AuthCallbackPage = memo(({ onRequestNewLink }: AuthCallbackPageProps) => {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const { verifyMagicLink } = useAuth()
+  const userId = searchParams.get('userId')
+  const secret = searchParams.get('secret')
+  const sentAt = Number(searchParams.get('sent')) || null
+  const returnPath = getReturnPath(searchParams.get('next'))
+
+  const [result, setResult] = useState<{ secret: string; status: CallbackStatus } | null>(null)
+  const [retryCount, setRetryCount] = useState(0)
+
+  useEffect(() => {
+    if (!userId || !secret) return
+
+    let cancelled = false
+    let redirectTimer: ReturnType<typeof setTimeout> | undefined
+    let verification = verifications.get(secret)
+    if (!verification) {
+      verification = verifyMagicLink(userId, secret)
+      verifications.set(secret, verification)
+    }
+
+    verification
+      .then(() => {
+        if (cancelled) return
+        setResult({ secret, status: 'success' })
+        redirectTimer = setTimeout(() => navigate(returnPath, { replace: true }), REDIRECT_DELAY_MS)
+      })
+      .catch(err => {
+        // Let a retry make a fresh attempt
+        verifications.delete(secret)
+        if (cancelled) return
+        if (isExpiredTokenError(err)) {
+          // Appwrite reports both the same way - the send time tells them apart
+          const expired = !sentAt || Date.now() - sentAt > MAGIC_LINK_TTL_MS
+          setResult({ secret, status: expired ? 'expired' : 'used' })
+        } else {
+          setResult({ secret, status: 'error' })
+        }
+      })
+
+    return () => {
+      cancelled = true
+      clearTimeout(redirectTimer)
+    }
+  }, [userId, secret, sentAt, returnPath, retryCount, verifyMagicLink, navigate])
+
+  const status: CallbackStatus = !userId || !secret
+    ? 'invalid'
+    : result?.secret === secret ? result.status : 'verifying'
+  const { title, text } = messages[status]
+
+  const requestNewLink = () => {
+    navigate(returnPath, { replace: true })
+    onRequestNewLink()
+  }
+
+  const retry = () => {
+    setResult(null)
+    setRetryCount(prev => prev + 1)
+  }
+
+  return (
+    <div className="max-w-md mx-auto py-10">
+      <div className="bg-gradient-to-b from-zinc-800/90 to-zinc-900/95 rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl shadow-black/50 px-5 sm:px-8 py-8 text-center">
+        {(status === 'verifying' || status === 'success') && (
+          <div className="w-12 h-12 mx-auto mb-4 flex items-center justify-center">
+            {status === 'verifying' ? (
+              <div className="w-8 h-8 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
+            ) : (
+              <svg className="w-10 h-10 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            )}
+          </div>
+        )}
+
+        <h2 className="text-xl sm:text-2xl font-bold text-white">{title}</h2>
+        <p className="text-sm text-zinc-400 mt-2">{text}</p>
+
+        {(status === 'expired' || status === 'used' || status === 'invalid') && (
+          <button
+            onClick={requestNewLink}
+            className="mt-6 w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-sm text-white font-semibold rounded-xl cursor-pointer transition-all"
+          >
+            Send a new magic link
+          </button>
+        )}
+        {status === 'error' && (
+          <button
+            onClick={retry}
+            className="mt-6 w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-sm text-white font-semibold rounded-xl cursor-pointer transition-all"
+          >
+            Try Again
+          </button>
+        )}
+      </div>
+    </div>
+  )
+})
+
+AuthCallbackPage.displayName = 'AuthCallbackPage'
+
+export default AuthCallbackPage
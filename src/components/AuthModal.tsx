@@ -1,5 +1,8 @@
 import { useState, memo, useEffect } from 'react'
+import type { OAuthProvider } from 'appwrite'
 import { useAuth } from '../context/AuthContext'
+import { OAUTH_PROVIDERS } from '../constants'
+import OAuthButtons from './OAuthButtons'
 
 interface AuthModalProps {
   isOpen: boolean
@@ -10,7 +13,7 @@ interface AuthModalProps {
 type AuthMode = 'login' | 'signup' | 'forgot' | 'magic'
 
 export const AuthModal = memo(function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalProps) {
-  const { login, signup, sendMagicLink, forgotPassword } = useAuth()
+  const { login, signup, sendMagicLink, forgotPassword, signInWithOAuth } = useAuth()
   const [mode, setMode] = useState<AuthMode>(initialMode)
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -82,6 +85,13 @@ export const AuthModal = memo(function AuthModal({ isOpen, onClose, initialMode
     }
   }
 
+  // Hands off to the provider - the page navigates away
+  const handleOAuth = (provider: OAuthProvider) => {
+    setError('')
+    setLoading(true)
+    signInWithOAuth(provider)
+  }
+
   const switchMode = (newMode: AuthMode) => {
     setMode(newMode)
     resetForm()
@@ -304,6 +314,8 @@ export const AuthModal = memo(function AuthModal({ isOpen, onClose, initialMode
                   </svg>
                   Sign in with Magic Link
                 </button>
+
+                <OAuthButtons providers={OAUTH_PROVIDERS} onSelect={handleOAuth} disabled={loading} />
                 
                 <div className="flex justify-between text-xs sm:text-sm pt-1.5 sm:pt-2">
                   <button
@@ -324,6 +336,17 @@ export const AuthModal = memo(function AuthModal({ isOpen, onClose, initialMode
               </>
             )}
 
+            {mode === 'signup' && OAUTH_PROVIDERS.length > 0 && (
+              <>
+                <div className="flex items-center gap-3 sm:gap-4">
+                  <div className="flex-1 h-px bg-gradient-to-r from-transparent via-white/10 to-transparent" />
+                  <span className="text-xs text-zinc-500 uppercase tracking-wider">or sign up with</span>
+                  <div className="flex-1 h-px bg-gradient-to-r from-transparent via-white/10 to-transparent" />
+                </div>
+                <OAuthButtons providers={OAUTH_PROVIDERS} onSelect={handleOAuth} disabled={loading} />
+              </>
+            )}
+
             {mode === 'signup' && (
               <div className="text-center text-xs sm:text-sm pt-1.5 sm:pt-2">
                 <button
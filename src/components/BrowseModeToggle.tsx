@@ -0,0 +1,36 @@
+import { memo } from 'react'
+import type { BrowseMode } from '../types'
+
+interface BrowseModeToggleProps {
+  mode: BrowseMode
+  onChange: (mode: BrowseMode) => void
+}
+
+const modes: { value: BrowseMode; label: string }[] = [
+  { value: 'paged', label: 'Pages' },
+  { value: 'infinite', label: 'Infinite' },
+]
+
+const BrowseModeToggle = memo(({ mode, onChange }: BrowseModeToggleProps) => {
+  return (
+    <div className="flex items-center gap-1 p-1 bg-white/5 rounded-lg border border-white/10">
+      {modes.map(({ value, label }) => (
+        <button
+          key={value}
+          onClick={() => onChange(value)}
+          className={`px-3 py-1 rounded-md text-xs font-medium cursor-pointer transition ${
+            mode === value
+              ? 'bg-red-500 text-white'
+              : 'text-zinc-400 hover:text-white'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+})
+
+BrowseModeToggle.displayName = 'BrowseModeToggle'
+
+export default BrowseModeToggle
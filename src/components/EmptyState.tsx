@@ -1,7 +1,7 @@
 import { memo } from 'react'
 
 interface EmptyStateProps {
-  type: 'no-favorites' | 'no-movies' | 'error'
+  type: 'no-favorites' | 'empty-list' | 'no-watched' | 'no-movies' | 'error'
   message?: string
   onRetry?: () => void
 }
@@ -36,7 +36,11 @@ const EmptyState = memo(({ type, message, onRetry }: EmptyStateProps) => {
         </svg>
       </div>
       <p className="text-zinc-500">
-        {type === 'no-favorites' ? 'No favorites yet' : 'No movies found'}
+        {type === 'no-favorites'
+          ? 'No favorites yet'
+          : type === 'empty-list'
+            ? 'No movies in this list yet'
+            : type === 'no-watched' ? 'No watched movies yet' : 'No movies found'}
       </p>
     </div>
   )
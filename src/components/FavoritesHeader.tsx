@@ -1,11 +1,17 @@
 import { memo } from 'react'
 import { Link } from 'react-router-dom'
 import type { User } from '../lib/appwrite'
+import type { FavoritesSort } from '../types'
+import { FAVORITES_SORT_OPTIONS } from '../constants'
 
 interface FavoritesHeaderProps {
   user: User | null
   authLoading: boolean
   favoritesCount: number
+  // Later pages of cloud favorites are still arriving
+  loadingMore: boolean
+  sort: FavoritesSort
+  onSortChange: (sort: FavoritesSort) => void
   onSignUp: () => void
 }
 
@@ -13,6 +19,9 @@ const FavoritesHeader = memo(({
   user,
   authLoading,
   favoritesCount,
+  loadingMore,
+  sort,
+  onSortChange,
   onSignUp
 }: FavoritesHeaderProps) => {
   return (
@@ -48,17 +57,32 @@ const FavoritesHeader = memo(({
             {favoritesCount === 0 
               ? 'No favorites yet. Click the heart on movies to add them!'
               : `${favoritesCount} favorite${favoritesCount === 1 ? '' : 's'}`}
+            {loadingMore && ' · loading more...'}
           </p>
         </div>
-        <Link
-          to="/"
-          className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-sm font-medium border border-white/10 transition-colors"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
-          </svg>
-          <span className="hidden sm:inline">Back to Movies</span>
-        </Link>
+        <div className="flex items-center gap-2">
+          {favoritesCount > 1 && (
+            <select
+              value={sort}
+              onChange={(e) => onSortChange(e.target.value as FavoritesSort)}
+              aria-label="Sort favorites"
+              className="px-3 py-2 bg-zinc-800 border border-white/10 rounded-xl text-sm text-white focus:outline-none focus:border-red-500/50 cursor-pointer"
+            >
+              {FAVORITES_SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+          <Link
+            to="/"
+            className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-sm font-medium border border-white/10 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+            <span className="hidden sm:inline">Back to Movies</span>
+          </Link>
+        </div>
       </div>
 
       {/* Synced badge */}
@@ -0,0 +1,100 @@
+import { memo, useRef } from 'react'
+import type { FavoritesImportResult } from '../hooks/useFavoritesTransfer'
+import type { FavoritesFileFormat } from '../lib/favoritesTransfer'
+
+interface FavoritesTransferProps {
+  hasFavorites: boolean
+  importing: boolean
+  importResult: FavoritesImportResult | null
+  importError: string | null
+  onExport: (format: FavoritesFileFormat) => void
+  onImport: (file: File) => void
+  onDismiss: () => void
+}
+
+const buttonClassName = 'px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-xs font-medium text-zinc-300 border border-white/10 cursor-pointer disabled:opacity-50 disabled:cursor-default transition'
+
+const FavoritesTransfer = memo(({
+  hasFavorites,
+  importing,
+  importResult,
+  importError,
+  onExport,
+  onImport,
+  onDismiss
+}: FavoritesTransferProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Reset so picking the same file again still triggers a change
+    e.target.value = ''
+    if (file) onImport(file)
+  }
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onExport('json')} disabled={!hasFavorites} className={buttonClassName}>
+          Export JSON
+        </button>
+        <button onClick={() => onExport('csv')} disabled={!hasFavorites} className={buttonClassName}>
+          Export CSV
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={importing} className={buttonClassName}>
+          {importing ? 'Importing...' : 'Import'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {/* Import Result */}
+      {(importResult || importError) && (
+        <div className={`mt-3 p-3 rounded-xl border text-sm flex items-start justify-between gap-3 ${
+          importError ? 'bg-red-500/10 border-red-500/20 text-red-300' : 'bg-white/5 border-white/10 text-zinc-300'
+        }`}>
+          <div className="space-y-1 min-w-0">
+            {importError ? (
+              <p>{importError}</p>
+            ) : importResult && (
+              <>
+                <p>
+                  Added <span className="text-white font-medium">{importResult.added}</span> favorite{importResult.added === 1 ? '' : 's'}
+                  {importResult.duplicates > 0 && `, ${importResult.duplicates} already saved`}
+                </p>
+                {importResult.unknown.length > 0 && (
+                  <p className="text-xs text-zinc-500 break-words">
+                    Unknown movies: {importResult.unknown.join(', ')}
+                  </p>
+                )}
+                {importResult.failed.length > 0 && (
+                  <p className="text-xs text-zinc-500 break-words">
+                    Couldn't check (try importing again): {importResult.failed.join(', ')}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+          <button
+            onClick={onDismiss}
+            aria-label="Dismiss"
+            className="shrink-0 text-zinc-500 hover:text-white cursor-pointer transition"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+    </div>
+  )
+})
+
+FavoritesTransfer.displayName = 'FavoritesTransfer'
+
+export default FavoritesTransfer
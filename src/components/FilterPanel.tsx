@@ -0,0 +1,177 @@
+import { memo, useState } from 'react'
+import { GENRES, SORT_OPTIONS, RUNTIME_OPTIONS } from '../constants'
+import type { MovieFilters, SortOption } from '../types'
+import { formatRuntime } from '../utils'
+
+interface FilterPanelProps {
+  filters: MovieFilters
+  activeFilterCount: number
+  ratingOptions: string[]
+  onChange: (changes: Partial<MovieFilters>) => void
+  onReset: () => void
+}
+
+const selectClassName = 'w-full px-3 py-2 bg-zinc-800 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-red-500/50 cursor-pointer'
+const inputClassName = 'w-full px-3 py-2 bg-zinc-800 border border-white/10 rounded-lg text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-red-500/50'
+
+// Parse a number input ('' clears the filter)
+const toNumberOrNull = (value: string): number | null => {
+  const parsed = parseInt(value, 10)
+  return isNaN(parsed) ? null : parsed
+}
+
+const FilterPanel = memo(({
+  filters,
+  activeFilterCount,
+  ratingOptions,
+  onChange,
+  onReset
+}: FilterPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const toggleGenre = (genre: string) => {
+    onChange({
+      genres: filters.genres.includes(genre)
+        ? filters.genres.filter(g => g !== genre)
+        : [...filters.genres, genre]
+    })
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border cursor-pointer transition ${
+          activeFilterCount > 0 || filters.sort !== 'default'
+            ? 'bg-red-500/10 text-red-400 border-red-500/30'
+            : 'bg-white/5 text-zinc-400 hover:text-white border-white/10'
+        }`}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18M6 10h12M10 16h4" />
+        </svg>
+        Sort & Filter
+        {activeFilterCount > 0 && (
+          <span className="px-1.5 py-0.5 rounded bg-red-500 text-white text-[10px]">{activeFilterCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-80 max-w-[calc(100vw-2rem)] p-4 space-y-4 bg-gradient-to-b from-zinc-800 to-zinc-900 rounded-2xl border border-white/10 shadow-2xl z-40">
+            {/* Sort */}
+            <div className="space-y-1.5">
+              <label className="block text-xs font-medium text-zinc-400">Sort by</label>
+              <select
+                value={filters.sort}
+                onChange={(e) => onChange({ sort: e.target.value as SortOption })}
+                className={selectClassName}
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Year Range */}
+            <div className="space-y-1.5">
+              <label className="block text-xs font-medium text-zinc-400">Release year</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  placeholder="From"
+                  value={filters.yearMin ?? ''}
+                  onChange={(e) => onChange({ yearMin: toNumberOrNull(e.target.value) })}
+                  className={inputClassName}
+                />
+                <span className="text-zinc-600">–</span>
+                <input
+                  type="number"
+                  placeholder="To"
+                  value={filters.yearMax ?? ''}
+                  onChange={(e) => onChange({ yearMax: toNumberOrNull(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            {/* Minimum Rating */}
+            <div className="space-y-1.5">
+              <label className="block text-xs font-medium text-zinc-400">Minimum rating</label>
+              <select
+                value={filters.minRating ?? ''}
+                onChange={(e) => onChange({ minRating: e.target.value || null })}
+                className={selectClassName}
+              >
+                <option value="">Any</option>
+                {ratingOptions.map(rating => (
+                  <option key={rating} value={rating}>{rating}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Runtime Range */}
+            <div className="space-y-1.5">
+              <label className="block text-xs font-medium text-zinc-400">Runtime</label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={filters.runtimeMin ?? ''}
+                  onChange={(e) => onChange({ runtimeMin: toNumberOrNull(e.target.value) })}
+                  className={selectClassName}
+                >
+                  <option value="">Min</option>
+                  {RUNTIME_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{formatRuntime(minutes)}</option>
+                  ))}
+                </select>
+                <span className="text-zinc-600">–</span>
+                <select
+                  value={filters.runtimeMax ?? ''}
+                  onChange={(e) => onChange({ runtimeMax: toNumberOrNull(e.target.value) })}
+                  className={selectClassName}
+                >
+                  <option value="">Max</option>
+                  {RUNTIME_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{formatRuntime(minutes)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Genres */}
+            <div className="space-y-1.5">
+              <label className="block text-xs font-medium text-zinc-400">Genres (all selected must match)</label>
+              <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+                {GENRES.map(genre => (
+                  <button
+                    key={genre}
+                    onClick={() => toggleGenre(genre)}
+                    className={`px-2.5 py-1 rounded-full text-xs cursor-pointer transition ${
+                      filters.genres.includes(genre)
+                        ? 'bg-red-500 text-white'
+                        : 'bg-white/5 text-zinc-400 hover:bg-white/10 hover:text-white border border-white/10'
+                    }`}
+                  >
+                    {genre}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={onReset}
+              className="w-full py-2 bg-white/5 hover:bg-white/10 rounded-lg text-sm text-zinc-300 border border-white/10 cursor-pointer transition"
+            >
+              Reset
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+})
+
+FilterPanel.displayName = 'FilterPanel'
+
+export default FilterPanel
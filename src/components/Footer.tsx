@@ -1,14 +1,31 @@
-import { memo } from 'react'
-
-const Footer = memo(() => (
-  <footer className="border-t border-white/5 mt-12">
-    <div className="max-w-7xl mx-auto px-4 py-6 text-center">
-      <p className="text-xs text-zinc-600">
-        Powered by Movies API • Built with React + Tailwind CSS
-      </p>
-    </div>
-  </footer>
-))
+import { memo, useState } from 'react'
+import { movieCache } from '../lib/movieCache'
+
+const Footer = memo(() => {
+  const [cacheCleared, setCacheCleared] = useState(false)
+
+  const clearCache = async () => {
+    await movieCache.clear()
+    setCacheCleared(true)
+  }
+
+  return (
+    <footer className="border-t border-white/5 mt-12">
+      <div className="max-w-7xl mx-auto px-4 py-6 text-center">
+        <p className="text-xs text-zinc-600">
+          Powered by Movies API • Built with React + Tailwind CSS •{' '}
+          <button
+            onClick={clearCache}
+            disabled={cacheCleared}
+            className="hover:text-zinc-400 disabled:hover:text-zinc-600 cursor-pointer disabled:cursor-default transition-colors"
+          >
+            {cacheCleared ? 'Cache cleared' : 'Clear cached movies'}
+          </button>
+        </p>
+      </div>
+    </footer>
+  )
+})
 
 Footer.displayName = 'Footer'
 
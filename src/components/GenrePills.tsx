@@ -1,15 +1,14 @@
 import { memo, useRef, useCallback } from 'react'
-import { Link } from 'react-router-dom'
 import { GENRES } from '../constants'
 
 interface GenrePillsProps {
-  selectedGenre: string
+  selectedGenres: string[]
   isOnFavoritesPage: boolean
   onGenreSelect: (genre: string) => void
 }
 
 const GenrePills = memo(({
-  selectedGenre,
+  selectedGenres,
   isOnFavoritesPage,
   onGenreSelect
 }: GenrePillsProps) => {
@@ -36,24 +35,23 @@ const GenrePills = memo(({
 
       {/* Pills */}
       <div ref={scrollRef} className="flex-1 flex gap-2 overflow-x-auto scrollbar-hide">
-        <Link
-          to="/"
+        <button
           onClick={() => onGenreSelect('')}
-          className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-all ${
-            !selectedGenre && !isOnFavoritesPage
+          className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap cursor-pointer transition-all ${
+            selectedGenres.length === 0 && !isOnFavoritesPage
               ? 'bg-red-500 text-white' 
               : 'bg-white/5 text-zinc-400 hover:bg-white/10 hover:text-white border border-white/10'
           }`}
         >
           All
-        </Link>
+        </button>
         
         {GENRES.map(genre => (
           <button
             key={genre}
             onClick={() => onGenreSelect(genre)}
             className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap cursor-pointer transition-all ${
-              selectedGenre === genre 
+              selectedGenres.includes(genre)
                 ? 'bg-red-500 text-white' 
                 : 'bg-white/5 text-zinc-400 hover:bg-white/10 hover:text-white border border-white/10'
             }`}
@@ -0,0 +1,64 @@
+import { memo } from 'react'
+import type { FavoritesMergeSummary } from '../types'
+
+interface MergeSummaryBannerProps {
+  summary: FavoritesMergeSummary
+  retrying: boolean
+  onRetry: () => void
+  onDismiss: () => void
+}
+
+const MergeSummaryBanner = memo(({
+  summary,
+  retrying,
+  onRetry,
+  onDismiss
+}: MergeSummaryBannerProps) => {
+  const hasPending = summary.pending.length > 0
+
+  return (
+    <div
+      role="status"
+      className={`mb-6 p-3 rounded-xl border text-sm flex items-start justify-between gap-3 ${
+        hasPending ? 'bg-amber-500/10 border-amber-500/20 text-amber-200' : 'bg-white/5 border-white/10 text-zinc-300'
+      }`}
+    >
+      <div className="space-y-1 min-w-0">
+        <p>
+          Moved <span className="text-white font-medium">{summary.merged}</span> favorite{summary.merged === 1 ? '' : 's'} from this device to your account
+          {summary.alreadySaved > 0 && `, ${summary.alreadySaved} already saved`}
+        </p>
+        {summary.unavailable.length > 0 && (
+          <p className="text-xs text-zinc-500 break-words">
+            No longer available: {summary.unavailable.join(', ')}
+          </p>
+        )}
+        {hasPending && (
+          <p className="text-xs break-words">
+            {summary.pending.length} couldn't be synced yet and are still saved on this device.{' '}
+            <button
+              onClick={onRetry}
+              disabled={retrying}
+              className="text-red-400 hover:text-red-300 cursor-pointer disabled:opacity-50 disabled:cursor-default transition-colors"
+            >
+              {retrying ? 'Retrying...' : 'Retry'}
+            </button>
+          </p>
+        )}
+      </div>
+      <button
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        className="shrink-0 text-zinc-500 hover:text-white cursor-pointer transition"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  )
+})
+
+MergeSummaryBanner.displayName = 'MergeSummaryBanner'
+
+export default MergeSummaryBanner
@@ -1,7 +1,8 @@
-import { memo } from 'react'
-import type { Movie } from '../types'
+import { memo, useEffect, useRef } from 'react'
+import type { Movie, Watchlist, WatchedEntry, FavoriteSyncStatus } from '../types'
 import { getMovieYear } from '../utils'
 import MoviePlaceholder from './MoviePlaceholder'
+import AddToListMenu from './AddToListMenu'
 
 interface MovieCardProps {
   movie: Movie
@@ -11,6 +12,14 @@ interface MovieCardProps {
   onSelect: () => void
   onToggleFavorite: (e: React.MouseEvent) => void
   onImageError: () => void
+  onVisible?: () => void
+  // Favorite change still waiting to reach the server (or given up on)
+  favoriteSyncStatus?: FavoriteSyncStatus
+  watched?: WatchedEntry
+  // Add-to-list menu (shown when both handlers are given)
+  watchlists?: Watchlist[]
+  onToggleWatchlist?: (listId: string) => void
+  onCreateWatchlist?: (name: string) => void
 }
 
 const MovieCard = memo(({ 
@@ -20,13 +29,35 @@ const MovieCard = memo(({
   isLoading, 
   onSelect, 
   onToggleFavorite, 
-  onImageError 
+  onImageError,
+  onVisible,
+  favoriteSyncStatus,
+  watched,
+  watchlists = [],
+  onToggleWatchlist,
+  onCreateWatchlist
 }: MovieCardProps) => {
+  const cardRef = useRef<HTMLDivElement>(null)
   const movieYear = getMovieYear(movie)
   const hasValidPoster = movie.posterUrl && !hasError
 
+  // Report when a still-loading card scrolls into view so its details jump the queue
+  useEffect(() => {
+    const card = cardRef.current
+    if (!isLoading || !onVisible || !card || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onVisible()
+        observer.disconnect()
+      }
+    })
+    observer.observe(card)
+    return () => observer.disconnect()
+  }, [isLoading, onVisible])
+
   return (
-    <div onClick={onSelect} className="group cursor-pointer">
+    <div ref={cardRef} onClick={onSelect} className="group relative cursor-pointer">
       <div className="relative aspect-2/3 rounded-xl overflow-hidden bg-zinc-800 ring-1 ring-white/10 transition-all duration-200 group-hover:ring-2 group-hover:ring-red-500/50 group-hover:scale-[1.02]">
         {isLoading ? (
           <div className="w-full h-full bg-zinc-800 animate-pulse flex items-center justify-center">
@@ -51,20 +82,56 @@ const MovieCard = memo(({
           </span>
         )}
 
+        {watched && !isLoading && (
+          <span className="absolute bottom-2 left-2 flex items-center gap-1 px-1.5 py-0.5 bg-green-600/90 backdrop-blur-sm rounded text-[10px] font-semibold">
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+            </svg>
+            {watched.rating !== null ? `${watched.rating}/10` : 'Watched'}
+          </span>
+        )}
+
         <button
           onClick={onToggleFavorite}
+          title={
+            favoriteSyncStatus === 'pending' ? 'Waiting to sync'
+              : favoriteSyncStatus === 'failed' ? "Couldn't sync - click to try again"
+              : undefined
+          }
           className={`absolute top-2 right-2 w-8 h-8 flex items-center justify-center rounded-full cursor-pointer transition-all ${
             isFavorite 
               ? 'bg-red-500 text-white' 
-              : 'bg-black/50 text-white/70 sm:opacity-0 sm:group-hover:opacity-100 hover:bg-black/70'
+              : favoriteSyncStatus
+                ? 'bg-black/50 text-white/70 hover:bg-black/70'
+                : 'bg-black/50 text-white/70 sm:opacity-0 sm:group-hover:opacity-100 hover:bg-black/70'
           }`}
         >
           <svg className="w-4 h-4" fill={isFavorite ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
           </svg>
+          {favoriteSyncStatus === 'pending' && (
+            <span className="absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full bg-amber-400 ring-2 ring-zinc-900 animate-pulse" />
+          )}
+          {favoriteSyncStatus === 'failed' && (
+            <span className="absolute -bottom-1 -right-1 w-4 h-4 flex items-center justify-center rounded-full bg-amber-500 ring-2 ring-zinc-900 text-[10px] font-bold text-black">
+              !
+            </span>
+          )}
         </button>
       </div>
 
+      {/* Add to List - outside the poster so the menu isn't clipped */}
+      {onToggleWatchlist && onCreateWatchlist && !isLoading && (
+        <div className="absolute top-12 right-2">
+          <AddToListMenu
+            watchlists={watchlists}
+            movieId={movie.id}
+            onToggle={onToggleWatchlist}
+            onCreate={onCreateWatchlist}
+          />
+        </div>
+      )}
+
       <h3 className="mt-2.5 text-sm md:text-base font-medium text-zinc-300 line-clamp-1 group-hover:text-white transition-colors">
         {movie.title}
       </h3>
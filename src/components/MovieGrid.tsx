@@ -1,41 +1,107 @@
-import { memo } from 'react'
-import type { Movie } from '../types'
+import { memo, useEffect, useRef } from 'react'
+import type { Movie, Watchlist, WatchedEntry, FavoriteSyncStatus } from '../types'
 import MovieCard from './MovieCard'
 
 interface MovieGridProps {
   movies: Movie[]
   favorites: string[]
+  favoriteSyncStatus?: Map<string, FavoriteSyncStatus>
   imageErrors: Set<string>
   loadingDetails: Set<string>
   onMovieSelect: (movie: Movie) => void
   onToggleFavorite: (movieId: string, e: React.MouseEvent) => void
   onImageError: (movieId: string) => void
+  onMovieVisible?: (movieId: string) => void
+  watched?: Map<string, WatchedEntry>
+  watchlists?: Watchlist[]
+  onToggleWatchlist?: (listId: string, movie: Movie) => void
+  onCreateWatchlist?: (name: string, movie: Movie) => void
+  // Infinite scroll - a sentinel below the grid loads the next page
+  onLoadMore?: () => void
+  hasMore?: boolean
+  loadingMore?: boolean
+  loadMoreError?: string | null
 }
 
 const MovieGrid = memo(({
   movies,
   favorites,
+  favoriteSyncStatus,
   imageErrors,
   loadingDetails,
   onMovieSelect,
   onToggleFavorite,
-  onImageError
+  onImageError,
+  onMovieVisible,
+  watched,
+  watchlists,
+  onToggleWatchlist,
+  onCreateWatchlist,
+  onLoadMore,
+  hasMore = false,
+  loadingMore = false,
+  loadMoreError = null
 }: MovieGridProps) => {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  // Load the next page as the sentinel nears the viewport (not after a failure - that waits for Retry)
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!onLoadMore || !hasMore || loadingMore || loadMoreError || !sentinel) return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore()
+    }, { rootMargin: '400px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [onLoadMore, hasMore, loadingMore, loadMoreError])
+
   return (
-    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 md:gap-5 lg:gap-6">
-      {movies.map(movie => (
-        <MovieCard
-          key={movie.id}
-          movie={movie}
-          isFavorite={favorites.includes(movie.id)}
-          hasError={imageErrors.has(movie.id)}
-          isLoading={loadingDetails.has(movie.id)}
-          onSelect={() => onMovieSelect(movie)}
-          onToggleFavorite={(e) => onToggleFavorite(movie.id, e)}
-          onImageError={() => onImageError(movie.id)}
-        />
-      ))}
-    </div>
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 md:gap-5 lg:gap-6">
+        {movies.map(movie => (
+          <MovieCard
+            key={movie.id}
+            movie={movie}
+            isFavorite={favorites.includes(movie.id)}
+            favoriteSyncStatus={favoriteSyncStatus?.get(movie.id)}
+            hasError={imageErrors.has(movie.id)}
+            isLoading={loadingDetails.has(movie.id)}
+            onSelect={() => onMovieSelect(movie)}
+            onToggleFavorite={(e) => onToggleFavorite(movie.id, e)}
+            onImageError={() => onImageError(movie.id)}
+            onVisible={onMovieVisible && (() => onMovieVisible(movie.id))}
+            watched={watched?.get(movie.id)}
+            watchlists={watchlists}
+            onToggleWatchlist={onToggleWatchlist && (listId => onToggleWatchlist(listId, movie))}
+            onCreateWatchlist={onCreateWatchlist && (name => onCreateWatchlist(name, movie))}
+          />
+        ))}
+      </div>
+
+      {/* Infinite Scroll Sentinel */}
+      {onLoadMore && (
+        <div ref={sentinelRef} className="flex flex-col items-center justify-center py-10">
+          {loadingMore && (
+            <div className="w-8 h-8 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
+          )}
+          {loadMoreError && (
+            <>
+              <p className="text-sm text-zinc-400 mb-3">{loadMoreError}</p>
+              <button
+                onClick={onLoadMore}
+                className="px-4 py-2 bg-red-500 hover:bg-red-600 rounded-lg text-sm font-medium cursor-pointer transition"
+              >
+                Try Again
+              </button>
+            </>
+          )}
+          {!hasMore && !loadingMore && !loadMoreError && (
+            <p className="text-xs text-zinc-600">You've reached the end</p>
+          )}
+        </div>
+      )}
+    </>
   )
 })
 
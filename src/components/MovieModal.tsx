@@ -1,7 +1,10 @@
 import { memo } from 'react'
-import type { Movie } from '../types'
+import type { Movie, Watchlist, WatchedEntry } from '../types'
+import type { WatchedChanges } from '../context/watched'
 import { getMovieYear, formatRuntime, parseDuration, getTrailerUrl, getGenreName } from '../utils'
 import MoviePlaceholder from './MoviePlaceholder'
+import AddToListMenu from './AddToListMenu'
+import WatchedEditor from './WatchedEditor'
 
 interface MovieModalProps {
   movie: Movie
@@ -10,6 +13,12 @@ interface MovieModalProps {
   onClose: () => void
   onToggleFavorite: () => void
   onImageError: () => void
+  watchlists: Watchlist[]
+  onToggleWatchlist: (listId: string) => void
+  onCreateWatchlist: (name: string) => void
+  watchedEntry?: WatchedEntry
+  onSaveWatched: (changes?: WatchedChanges) => void
+  onRemoveWatched: () => void
 }
 
 const MovieModal = memo(({
@@ -18,7 +27,13 @@ const MovieModal = memo(({
   hasImageError,
   onClose,
   onToggleFavorite,
-  onImageError
+  onImageError,
+  watchlists,
+  onToggleWatchlist,
+  onCreateWatchlist,
+  watchedEntry,
+  onSaveWatched,
+  onRemoveWatched
 }: MovieModalProps) => {
   const hasValidPoster = movie.posterUrl && !hasImageError
   const movieYear = getMovieYear(movie)
@@ -112,6 +127,27 @@ const MovieModal = memo(({
             Watch Trailer on YouTube
           </button>
 
+          {/* Add to List */}
+          <div className="mb-4">
+            <AddToListMenu
+              watchlists={watchlists}
+              movieId={movie.id}
+              variant="modal"
+              onToggle={onToggleWatchlist}
+              onCreate={onCreateWatchlist}
+            />
+          </div>
+
+          {/* Watched */}
+          <div className="mb-4">
+            <WatchedEditor
+              key={movie.id}
+              entry={watchedEntry}
+              onSave={onSaveWatched}
+              onRemove={onRemoveWatched}
+            />
+          </div>
+
           {/* Genres */}
           {(movie.genres?.length || movie.genre) && (
             <div className="flex flex-wrap gap-2">
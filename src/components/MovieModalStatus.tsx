@@ -0,0 +1,76 @@
+import { memo } from 'react'
+
+interface MovieModalStatusProps {
+  type: 'loading' | 'not-found' | 'error'
+  message?: string
+  onClose: () => void
+  onRetry?: () => void
+}
+
+// Modal shell shown while a linked movie loads or when it can't be found
+const MovieModalStatus = memo(({ type, message, onClose, onRetry }: MovieModalStatusProps) => {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm cursor-pointer"
+      onClick={onClose}
+    >
+      <div
+        className="relative w-full max-w-sm md:max-w-md bg-zinc-900 rounded-2xl shadow-2xl cursor-default px-6 py-12 flex flex-col items-center text-center"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Close Button */}
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 w-8 h-8 flex items-center justify-center bg-white/5 hover:bg-white/10 rounded-full cursor-pointer transition"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        {type === 'loading' ? (
+          <>
+            <div className="w-10 h-10 border-2 border-white/20 border-t-white/60 rounded-full animate-spin mb-4" />
+            <p className="text-sm text-zinc-400">Loading movie...</p>
+          </>
+        ) : (
+          <>
+            <div className="w-16 h-16 rounded-full bg-red-500/10 flex items-center justify-center mb-4">
+              <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold mb-1">
+              {type === 'not-found' ? 'Movie not found' : 'Something went wrong'}
+            </h2>
+            <p className="text-sm text-zinc-400 mb-6">
+              {type === 'not-found'
+                ? "This movie doesn't exist or is no longer available."
+                : message || 'Failed to load movie'}
+            </p>
+            <div className="flex gap-2">
+              {type === 'error' && onRetry && (
+                <button
+                  onClick={onRetry}
+                  className="px-4 py-2 bg-red-500 hover:bg-red-600 rounded-lg text-sm font-medium cursor-pointer transition"
+                >
+                  Try Again
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-sm font-medium border border-white/10 cursor-pointer transition"
+              >
+                Browse Movies
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+})
+
+MovieModalStatus.displayName = 'MovieModalStatus'
+
+export default MovieModalStatus
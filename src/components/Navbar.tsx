@@ -7,6 +7,8 @@ interface NavbarProps {
   searchQuery: string
   onSearchChange: (value: string) => void
   isOnFavoritesPage: boolean
+  isOnListsPage: boolean
+  isOnWatchedPage: boolean
   favorites: string[]
   user: User | null
   authLoading: boolean
@@ -19,6 +21,8 @@ const Navbar = memo(({
   searchQuery,
   onSearchChange,
   isOnFavoritesPage,
+  isOnListsPage,
+  isOnWatchedPage,
   favorites,
   user,
   authLoading,
@@ -78,6 +82,37 @@ const Navbar = memo(({
           )}
         </Link>
 
+        {/* Lists */}
+        <Link
+          to="/lists"
+          className={`flex items-center gap-1.5 px-3 py-2.5 rounded-xl text-sm font-medium transition-all border ${
+            isOnListsPage
+              ? 'bg-red-500 text-white border-red-500'
+              : 'bg-white/5 text-zinc-400 hover:bg-white/10 border-white/10'
+          }`}
+        >
+          <svg className="w-4 h-4" fill={isOnListsPage ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+          </svg>
+          <span className="hidden sm:inline">Lists</span>
+        </Link>
+
+        {/* Watched */}
+        <Link
+          to="/watched"
+          className={`flex items-center gap-1.5 px-3 py-2.5 rounded-xl text-sm font-medium transition-all border ${
+            isOnWatchedPage
+              ? 'bg-red-500 text-white border-red-500'
+              : 'bg-white/5 text-zinc-400 hover:bg-white/10 border-white/10'
+          }`}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+          </svg>
+          <span className="hidden sm:inline">Watched</span>
+        </Link>
+
         {/* Auth */}
         {!authLoading && (
           user ? (
@@ -106,6 +141,17 @@ const Navbar = memo(({
                       <span className="text-xs text-zinc-500">Cloud favorites</span>
                       <span className="text-xs font-medium text-white bg-white/10 px-2 py-0.5 rounded-full">{cloudFavorites.length}</span>
                     </div>
+                    <Link
+                      to="/account"
+                      onClick={() => setUserMenuOpen(false)}
+                      className="w-full mt-1 px-3 py-2.5 flex items-center gap-2 text-left text-sm text-zinc-300 hover:bg-white/5 rounded-xl transition-colors"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      Account settings
+                    </Link>
                     <button
                       onClick={() => { onLogout(); setUserMenuOpen(false) }}
                       className="w-full mt-1 px-3 py-2.5 flex items-center gap-2 text-left text-sm text-red-400 hover:bg-red-500/10 rounded-xl cursor-pointer transition-colors"
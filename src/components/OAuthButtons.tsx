@@ -0,0 +1,34 @@
+import { memo } from 'react'
+import type { OAuthProvider } from 'appwrite'
+import { getOAuthProviderName } from '../utils'
+
+interface OAuthButtonsProps {
+  providers: OAuthProvider[]
+  onSelect: (provider: OAuthProvider) => void
+  disabled?: boolean
+}
+
+// Row of "Continue with ..." buttons for the configured OAuth providers
+const OAuthButtons = memo(({ providers, onSelect, disabled = false }: OAuthButtonsProps) => {
+  if (providers.length === 0) return null
+
+  return (
+    <div className={`grid gap-2 ${providers.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+      {providers.map(provider => (
+        <button
+          key={provider}
+          type="button"
+          onClick={() => onSelect(provider)}
+          disabled={disabled}
+          className="py-2.5 px-3 bg-white/5 hover:bg-white/10 disabled:opacity-50 text-sm text-white font-medium rounded-xl transition-all duration-200 border border-white/10 hover:border-white/20 truncate"
+        >
+          {getOAuthProviderName(provider)}
+        </button>
+      ))}
+    </div>
+  )
+})
+
+OAuthButtons.displayName = 'OAuthButtons'
+
+export default OAuthButtons
@@ -0,0 +1,120 @@
+import { memo, useEffect, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useAuth } from '../context/AuthContext'
+import { getOAuthProviderName, getReturnPath } from '../utils'
+
+interface OAuthCallbackPageProps {
+  outcome: 'success' | 'failure'
+  onSignIn: () => void
+}
+
+type OAuthStatus = 'completing' | 'success' | 'no-session' | 'exists' | 'error'
+
+// Delay before sending the user back, so the success state is visible
+const REDIRECT_DELAY_MS = 1200
+
+// Appwrite error types meaning the email already belongs to another account
+const ACCOUNT_EXISTS_ERRORS = ['user_already_exists', 'user_email_already_exists']
+
+// Appwrite appends the failure reason as JSON in the `error` query parameter
+const parseOAuthError = (value: string | null): { type?: string; message?: string } => {
+  if (!value) return {}
+  try {
+    return JSON.parse(value)
+  } catch {
+    return { message: value }
+  }
+}
+
+// Landing pages for Appwrite's OAuth redirect (/auth/oauth/success and /auth/oauth/failure)
+const OAuthCallbackPage = memo(({ outcome, onSignIn }: OAuthCallbackPageProps) => {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const { completeOAuthSignIn } = useAuth()
+  const provider = searchParams.get('provider')
+  const providerName = provider ? getOAuthProviderName(provider) : 'your provider'
+  const returnPath = getReturnPath(searchParams.get('next'))
+  const oauthError = parseOAuthError(searchParams.get('error'))
+
+  const [completed, setCompleted] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    if (outcome !== 'success') return
+
+    let cancelled = false
+    let redirectTimer: ReturnType<typeof setTimeout> | undefined
+    completeOAuthSignIn().then(signedIn => {
+      if (cancelled) return
+      setCompleted(signedIn)
+      if (signedIn) {
+        redirectTimer = setTimeout(() => navigate(returnPath, { replace: true }), REDIRECT_DELAY_MS)
+      }
+    })
+
+    return () => {
+      cancelled = true
+      clearTimeout(redirectTimer)
+    }
+  }, [outcome, returnPath, completeOAuthSignIn, navigate])
+
+  const status: OAuthStatus = outcome === 'failure'
+    ? ACCOUNT_EXISTS_ERRORS.includes(oauthError.type || '') ? 'exists' : 'error'
+    : completed === null ? 'completing' : completed ? 'success' : 'no-session'
+
+  const messages: Record<OAuthStatus, { title: string; text: string }> = {
+    completing: { title: 'Signing you in...', text: `Finishing sign-in with ${providerName}.` },
+    success: { title: "You're signed in", text: 'Taking you back to where you were...' },
+    'no-session': {
+      title: 'Sign-in Incomplete',
+      text: `Signing in with ${providerName} worked, but no session reached this browser. It may be blocking third-party cookies - allow them for this site or sign in with email instead.`
+    },
+    exists: {
+      title: 'Account Already Exists',
+      text: `An account with your ${providerName} email already exists. Sign in with your password, then connect ${providerName} from Account settings to link the two.`
+    },
+    error: {
+      title: 'Sign-in Failed',
+      text: oauthError.message || `Signing in with ${providerName} was cancelled or didn't complete. Please try again.`
+    }
+  }
+  const { title, text } = messages[status]
+
+  const signInInstead = () => {
+    navigate(returnPath, { replace: true })
+    onSignIn()
+  }
+
+  return (
+    <div className="max-w-md mx-auto py-10">
+      <div className="bg-gradient-to-b from-zinc-800/90 to-zinc-900/95 rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl shadow-black/50 px-5 sm:px-8 py-8 text-center">
+        {(status === 'completing' || status === 'success') && (
+          <div className="w-12 h-12 mx-auto mb-4 flex items-center justify-center">
+            {status === 'completing' ? (
+              <div className="w-8 h-8 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
+            ) : (
+              <svg className="w-10 h-10 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            )}
+          </div>
+        )}
+
+        <h2 className="text-xl sm:text-2xl font-bold text-white">{title}</h2>
+        <p className="text-sm text-zinc-400 mt-2">{text}</p>
+
+        {(status === 'no-session' || status === 'exists' || status === 'error') && (
+          <button
+            onClick={signInInstead}
+            className="mt-6 w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-sm text-white font-semibold rounded-xl cursor-pointer transition-all"
+          >
+            {status === 'exists' ? 'Sign in with password' : 'Back to sign in'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+})
+
+OAuthCallbackPage.displayName = 'OAuthCallbackPage'
+
+export default OAuthCallbackPage
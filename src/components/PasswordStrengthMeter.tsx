@@ -0,0 +1,28 @@
+import { memo } from 'react'
+import type { PasswordStrength } from '../utils'
+
+interface PasswordStrengthMeterProps {
+  strength: PasswordStrength
+}
+
+const strengthColors = ['bg-zinc-700', 'bg-red-500', 'bg-amber-500', 'bg-lime-500', 'bg-green-500']
+
+const PasswordStrengthMeter = memo(({ strength }: PasswordStrengthMeterProps) => {
+  return (
+    <div className="flex items-center gap-2 pl-1">
+      <div className="flex flex-1 gap-1">
+        {[1, 2, 3, 4].map(level => (
+          <div
+            key={level}
+            className={`h-1 flex-1 rounded-full ${strength.score >= level ? strengthColors[strength.score] : 'bg-zinc-700'}`}
+          />
+        ))}
+      </div>
+      <span className="text-xs text-zinc-400 w-16 text-right">{strength.label}</span>
+    </div>
+  )
+})
+
+PasswordStrengthMeter.displayName = 'PasswordStrengthMeter'
+
+export default PasswordStrengthMeter
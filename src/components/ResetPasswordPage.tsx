@@ -0,0 +1,179 @@
+import { memo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useAuth } from '../context/AuthContext'
+import { isExpiredTokenError } from '../lib/appwrite'
+import { MIN_PASSWORD_LENGTH, MIN_PASSWORD_SCORE } from '../constants'
+import { getPasswordStrength } from '../utils'
+import PasswordStrengthMeter from './PasswordStrengthMeter'
+
+interface ResetPasswordPageProps {
+  onSignIn: () => void
+  onForgotPassword: () => void
+}
+
+const inputClassName = 'w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-red-500/50 focus:bg-white/10 transition-all duration-200'
+
+// Completes a password reset from the recovery email link (/reset-password?userId=...&secret=...)
+const ResetPasswordPage = memo(({ onSignIn, onForgotPassword }: ResetPasswordPageProps) => {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const { resetPassword, login } = useAuth()
+  const userId = searchParams.get('userId')
+  const secret = searchParams.get('secret')
+
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [showPassword, setShowPassword] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  // The link can't be used (missing params, expired or already used)
+  const [linkInvalid, setLinkInvalid] = useState(!userId || !secret)
+  // Password changed, but signing in automatically didn't work
+  const [resetDone, setResetDone] = useState(false)
+
+  const strength = getPasswordStrength(password)
+  const mismatch = confirmPassword.length > 0 && password !== confirmPassword
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!userId || !secret) return
+    if (strength.score < MIN_PASSWORD_SCORE) {
+      setError('Please choose a stronger password - mix letters, numbers and symbols')
+      return
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setError('')
+    setLoading(true)
+    try {
+      await resetPassword(userId, secret, password)
+    } catch (err) {
+      setLoading(false)
+      if (isExpiredTokenError(err)) {
+        setLinkInvalid(true)
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred. Please try again.')
+      }
+      return
+    }
+
+    // Sign in with the new password right away
+    try {
+      if (!email.trim()) throw new Error('No email')
+      await login(email.trim(), password)
+      navigate('/', { replace: true })
+    } catch {
+      setLoading(false)
+      setResetDone(true)
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto py-10">
+      <div className="bg-gradient-to-b from-zinc-800/90 to-zinc-900/95 rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl shadow-black/50 px-5 sm:px-8 py-6 sm:py-8">
+        <h2 className="text-xl sm:text-2xl font-bold text-white text-center">
+          {linkInvalid ? 'Link Expired' : resetDone ? 'Password Updated' : 'Choose a New Password'}
+        </h2>
+
+        {linkInvalid ? (
+          <div className="mt-4 space-y-4 text-center">
+            <p className="text-sm text-zinc-400">
+              This reset link is invalid, has expired or was already used. Request a new one to continue.
+            </p>
+            <button
+              onClick={onForgotPassword}
+              className="w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-sm text-white font-semibold rounded-xl cursor-pointer transition-all"
+            >
+              Send a new reset link
+            </button>
+          </div>
+        ) : resetDone ? (
+          <div className="mt-4 space-y-4 text-center">
+            <p className="text-sm text-zinc-400">Your password was changed. Sign in with your new password.</p>
+            <button
+              onClick={onSignIn}
+              className="w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-sm text-white font-semibold rounded-xl cursor-pointer transition-all"
+            >
+              Sign In
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-zinc-300">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                autoComplete="username"
+                className={inputClassName}
+              />
+              <p className="text-xs text-zinc-500 pl-1">Used to sign you in once the password is changed</p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-zinc-300">New password</label>
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="text-xs text-zinc-500 hover:text-zinc-300 cursor-pointer transition-colors"
+                >
+                  {showPassword ? 'Hide' : 'Show'}
+                </button>
+              </div>
+              <input
+                type={showPassword ? 'text' : 'password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••••"
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                className={inputClassName}
+                required
+              />
+              {password && <PasswordStrengthMeter strength={strength} />}
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-zinc-300">Confirm password</label>
+              <input
+                type={showPassword ? 'text' : 'password'}
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="••••••••"
+                autoComplete="new-password"
+                className={inputClassName}
+                required
+              />
+              {mismatch && <p className="text-xs text-red-400 pl-1">Passwords do not match</p>}
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading || strength.score < MIN_PASSWORD_SCORE || password !== confirmPassword}
+              className="w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 disabled:from-red-500/50 disabled:to-orange-500/50 text-sm text-white font-semibold rounded-xl cursor-pointer disabled:cursor-default transition-all"
+            >
+              {loading ? 'Updating...' : 'Update Password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+})
+
+ResetPasswordPage.displayName = 'ResetPasswordPage'
+
+export default ResetPasswordPage
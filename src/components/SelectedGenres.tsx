@@ -0,0 +1,75 @@
+import { memo } from 'react'
+import type { GenreMatch } from '../types'
+
+interface SelectedGenresProps {
+  genres: string[]
+  match: GenreMatch
+  onRemove: (genre: string) => void
+  onClear: () => void
+  onMatchChange: (match: GenreMatch) => void
+}
+
+const matchOptions: { value: GenreMatch; label: string }[] = [
+  { value: 'any', label: 'Any (OR)' },
+  { value: 'all', label: 'All (AND)' },
+]
+
+const SelectedGenres = memo(({
+  genres,
+  match,
+  onRemove,
+  onClear,
+  onMatchChange
+}: SelectedGenresProps) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      {genres.map(genre => (
+        <span
+          key={genre}
+          className="flex items-center gap-1 pl-3 pr-1.5 py-1 rounded-full bg-red-500/10 border border-red-500/30 text-xs font-medium text-red-400"
+        >
+          {genre}
+          <button
+            onClick={() => onRemove(genre)}
+            aria-label={`Remove ${genre}`}
+            className="w-4 h-4 flex items-center justify-center rounded-full hover:bg-red-500/20 hover:text-white cursor-pointer transition"
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </span>
+      ))}
+
+      {/* AND/OR only matters once several genres are picked */}
+      {genres.length > 1 && (
+        <div className="flex items-center gap-1 p-1 bg-white/5 rounded-lg border border-white/10">
+          {matchOptions.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onMatchChange(value)}
+              className={`px-2.5 py-0.5 rounded-md text-xs font-medium cursor-pointer transition ${
+                match === value
+                  ? 'bg-red-500 text-white'
+                  : 'text-zinc-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={onClear}
+        className="text-xs text-zinc-500 hover:text-white cursor-pointer transition"
+      >
+        Clear
+      </button>
+    </div>
+  )
+})
+
+SelectedGenres.displayName = 'SelectedGenres'
+
+export default SelectedGenres
@@ -0,0 +1,84 @@
+import { memo, useState } from 'react'
+import type { FavoritesShare } from '../lib/appwrite'
+
+interface ShareFavoritesPanelProps {
+  share: FavoritesShare | null
+  // Sharing needs a verified email first
+  locked: boolean
+  onShare: () => Promise<boolean>
+  onRevoke: () => Promise<boolean>
+}
+
+const buttonClassName = 'px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-xs font-medium text-zinc-300 border border-white/10 cursor-pointer disabled:opacity-50 disabled:cursor-default transition'
+
+const ShareFavoritesPanel = memo(({ share, locked, onShare, onRevoke }: ShareFavoritesPanelProps) => {
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const shareUrl = share ? `${window.location.origin}/share/${share.$id}` : ''
+
+  const run = async (action: () => Promise<boolean>, failure: string) => {
+    setBusy(true)
+    setError(null)
+    setCopied(false)
+    const ok = await action()
+    setBusy(false)
+    if (!ok) setError(failure)
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setCopied(true)
+    } catch {
+      setError("Couldn't copy - select the link and copy it manually")
+    }
+  }
+
+  return (
+    <div className="mb-6">
+      {share ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            readOnly
+            value={shareUrl}
+            onFocus={(e) => e.target.select()}
+            aria-label="Public link to your favorites"
+            className="flex-1 min-w-0 sm:max-w-sm px-3 py-1.5 bg-zinc-800 border border-white/10 rounded-lg text-xs text-zinc-300 focus:outline-none focus:border-red-500/50"
+          />
+          <button onClick={copyLink} className={buttonClassName}>
+            {copied ? 'Copied!' : 'Copy link'}
+          </button>
+          <button
+            onClick={() => run(onRevoke, "Couldn't stop sharing. Please try again.")}
+            disabled={busy}
+            className={buttonClassName}
+          >
+            {busy ? 'Stopping...' : 'Stop sharing'}
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => run(onShare, "Couldn't share your favorites. Please try again.")}
+            disabled={busy || locked}
+            className={buttonClassName}
+          >
+            {busy ? 'Sharing...' : 'Share publicly'}
+          </button>
+          <p className="text-xs text-zinc-500">
+            {locked
+              ? 'Verify your email to share your favorites.'
+              : 'Makes your favorites public - anyone can find and view them (read-only), not just people with the link.'}
+          </p>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  )
+})
+
+ShareFavoritesPanel.displayName = 'ShareFavoritesPanel'
+
+export default ShareFavoritesPanel
@@ -0,0 +1,62 @@
+import { memo } from 'react'
+import { Link } from 'react-router-dom'
+import type { FavoritesShare } from '../lib/appwrite'
+
+interface SharedFavoritesHeaderProps {
+  share: FavoritesShare | null
+  favoritesCount: number
+  copiedCount: number | null
+  onCopyAll: () => void
+}
+
+const SharedFavoritesHeader = memo(({
+  share,
+  favoritesCount,
+  copiedCount,
+  onCopyAll
+}: SharedFavoritesHeaderProps) => {
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      <div>
+        <h2 className="text-xl font-semibold">
+          {share ? `${share.ownerName || 'Someone'}'s Favorites` : 'Shared Favorites'}
+        </h2>
+        <p className="text-sm text-zinc-500 mt-1">
+          {share
+            ? `${favoritesCount} favorite${favoritesCount === 1 ? '' : 's'} · read-only`
+            : 'Loading...'}
+        </p>
+        {copiedCount !== null && (
+          <p className="text-xs text-green-500 mt-1">
+            {copiedCount === 0
+              ? 'You already have all of these'
+              : `Added ${copiedCount} movie${copiedCount === 1 ? '' : 's'} to your favorites`}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        {share && favoritesCount > 0 && (
+          <button
+            onClick={onCopyAll}
+            className="px-4 py-2 bg-red-500 hover:bg-red-600 rounded-xl text-sm font-medium cursor-pointer transition-colors"
+          >
+            Copy all to my favorites
+          </button>
+        )}
+        <Link
+          to="/"
+          className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-sm font-medium border border-white/10 transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          <span className="hidden sm:inline">Back to Movies</span>
+        </Link>
+      </div>
+    </div>
+  )
+})
+
+SharedFavoritesHeader.displayName = 'SharedFavoritesHeader'
+
+export default SharedFavoritesHeader
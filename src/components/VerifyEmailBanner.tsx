@@ -0,0 +1,67 @@
+import { memo, useState } from 'react'
+
+interface VerifyEmailBannerProps {
+  email: string
+  // Sharing stays locked until the email is verified
+  featuresLocked: boolean
+  onResend: () => Promise<void>
+  onDismiss: () => void
+}
+
+// Reminder for signed-in users who haven't verified their email yet
+const VerifyEmailBanner = memo(({ email, featuresLocked, onResend, onDismiss }: VerifyEmailBannerProps) => {
+  const [resend, setResend] = useState<'sending' | 'sent' | 'failed' | null>(null)
+
+  const handleResend = async () => {
+    setResend('sending')
+    try {
+      await onResend()
+      setResend('sent')
+    } catch {
+      setResend('failed')
+    }
+  }
+
+  return (
+    <div
+      role="status"
+      className="mb-6 p-3 rounded-xl border text-sm flex items-start justify-between gap-3 bg-amber-500/10 border-amber-500/20 text-amber-200"
+    >
+      <div className="space-y-1 min-w-0">
+        <p>
+          Please verify your email - we sent a link to <span className="text-white font-medium break-all">{email}</span>.
+          {featuresLocked && ' Sharing your favorites unlocks once it is verified.'}
+        </p>
+        <p className="text-xs">
+          {resend === 'sent' ? (
+            'A new link is on its way.'
+          ) : (
+            <>
+              {resend === 'failed' && "Couldn't send the email. "}
+              <button
+                onClick={handleResend}
+                disabled={resend === 'sending'}
+                className="text-red-400 hover:text-red-300 cursor-pointer disabled:opacity-50 disabled:cursor-default transition-colors"
+              >
+                {resend === 'sending' ? 'Sending...' : 'Resend verification email'}
+              </button>
+            </>
+          )}
+        </p>
+      </div>
+      <button
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        className="shrink-0 text-zinc-500 hover:text-white cursor-pointer transition"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  )
+})
+
+VerifyEmailBanner.displayName = 'VerifyEmailBanner'
+
+export default VerifyEmailBanner
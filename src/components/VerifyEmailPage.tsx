@@ -0,0 +1,146 @@
+import { memo, useEffect, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { useAuth } from '../context/AuthContext'
+import { isExpiredTokenError } from '../lib/appwrite'
+
+interface VerifyEmailPageProps {
+  onSignIn: () => void
+}
+
+type VerifyStatus = 'verifying' | 'success' | 'expired' | 'invalid' | 'error'
+
+// Verification secrets are single-use, so share one attempt per secret
+// (StrictMode runs effects twice in development)
+const verifications = new Map<string, Promise<void>>()
+
+const messages: Record<VerifyStatus, { title: string; text: string }> = {
+  verifying: { title: 'Verifying your email...', text: 'Checking your verification link.' },
+  success: { title: 'Email Verified', text: 'Thanks for confirming your address. Every feature is unlocked.' },
+  expired: { title: 'Link Expired', text: 'This verification link has expired or was already used. Request a new one below.' },
+  invalid: { title: 'Invalid Link', text: 'This verification link is incomplete. Make sure you opened the full link from the email.' },
+  error: { title: 'Verification Failed', text: "We couldn't verify your email. Check your connection and try again." }
+}
+
+// Completes email verification from the emailed link (/verify-email?userId=...&secret=...)
+const VerifyEmailPage = memo(({ onSignIn }: VerifyEmailPageProps) => {
+  const [searchParams] = useSearchParams()
+  const { user, verifyEmail, sendVerificationEmail } = useAuth()
+  const userId = searchParams.get('userId')
+  const secret = searchParams.get('secret')
+
+  const [result, setResult] = useState<{ secret: string; status: VerifyStatus } | null>(null)
+  const [retryCount, setRetryCount] = useState(0)
+  const [resend, setResend] = useState<'sending' | 'sent' | 'failed' | null>(null)
+
+  useEffect(() => {
+    if (!userId || !secret) return
+
+    let cancelled = false
+    let verification = verifications.get(secret)
+    if (!verification) {
+      verification = verifyEmail(userId, secret)
+      verifications.set(secret, verification)
+    }
+
+    verification
+      .then(() => {
+        if (!cancelled) setResult({ secret, status: 'success' })
+      })
+      .catch(err => {
+        // Let a retry make a fresh attempt
+        verifications.delete(secret)
+        if (!cancelled) setResult({ secret, status: isExpiredTokenError(err) ? 'expired' : 'error' })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, secret, retryCount, verifyEmail])
+
+  const linkStatus: VerifyStatus = !userId || !secret
+    ? 'invalid'
+    : result?.secret === secret ? result.status : 'verifying'
+  // An old link opened after verifying some other way isn't a problem
+  const status: VerifyStatus = linkStatus !== 'verifying' && user?.emailVerification ? 'success' : linkStatus
+  const { title, text } = messages[status]
+
+  const retry = () => {
+    setResult(null)
+    setRetryCount(prev => prev + 1)
+  }
+
+  const resendLink = async () => {
+    setResend('sending')
+    try {
+      await sendVerificationEmail()
+      setResend('sent')
+    } catch {
+      setResend('failed')
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto py-10">
+      <div className="bg-gradient-to-b from-zinc-800/90 to-zinc-900/95 rounded-2xl sm:rounded-3xl border border-white/10 shadow-2xl shadow-black/50 px-5 sm:px-8 py-8 text-center">
+        {(status === 'verifying' || status === 'success') && (
+          <div className="w-12 h-12 mx-auto mb-4 flex items-center justify-center">
+            {status === 'verifying' ? (
+              <div className="w-8 h-8 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
+            ) : (
+              <svg className="w-10 h-10 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            )}
+          </div>
+        )}
+
+        <h2 className="text-xl sm:text-2xl font-bold text-white">{title}</h2>
+        <p className="text-sm text-zinc-400 mt-2">{text}</p>
+
+        {status === 'success' && (
+          <Link
+            to="/"
+            replace
+            className="mt-6 block w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-sm text-white font-semibold rounded-xl transition-all"
+          >
+            Back to Movies
+          </Link>
+        )}
+        {(status === 'expired' || status === 'invalid') && (
+          user ? (
+            <>
+              <button
+                onClick={resendLink}
+                disabled={resend === 'sending' || resend === 'sent'}
+                className="mt-6 w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 disabled:from-red-500/50 disabled:to-orange-500/50 text-sm text-white font-semibold rounded-xl cursor-pointer disabled:cursor-default transition-all"
+              >
+                {resend === 'sending' ? 'Sending...' : resend === 'sent' ? 'Link Sent' : 'Send a new verification link'}
+              </button>
+              {resend === 'sent' && <p className="mt-3 text-xs text-zinc-500">Check {user.email} for the new link.</p>}
+              {resend === 'failed' && <p className="mt-3 text-xs text-red-400">Couldn't send the email. Please try again.</p>}
+            </>
+          ) : (
+            <button
+              onClick={onSignIn}
+              className="mt-6 w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-sm text-white font-semibold rounded-xl cursor-pointer transition-all"
+            >
+              Sign in to get a new link
+            </button>
+          )
+        )}
+        {status === 'error' && (
+          <button
+            onClick={retry}
+            className="mt-6 w-full py-3 bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-sm text-white font-semibold rounded-xl cursor-pointer transition-all"
+          >
+            Try Again
+          </button>
+        )}
+      </div>
+    </div>
+  )
+})
+
+VerifyEmailPage.displayName = 'VerifyEmailPage'
+
+export default VerifyEmailPage
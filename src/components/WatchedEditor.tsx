@@ -0,0 +1,90 @@
+import { memo, useState } from 'react'
+import { WATCHED_NOTE_MAX_LENGTH } from '../constants'
+import type { WatchedChanges } from '../context/watched'
+import type { WatchedEntry } from '../types'
+import { toDateInputValue } from '../utils'
+
+interface WatchedEditorProps {
+  entry?: WatchedEntry
+  onSave: (changes?: WatchedChanges) => void
+  onRemove: () => void
+}
+
+const RATINGS = Array.from({ length: 10 }, (_, i) => i + 1)
+
+const WatchedEditor = memo(({ entry, onSave, onRemove }: WatchedEditorProps) => {
+  // Note is saved when the field loses focus, not on every keystroke
+  const [note, setNote] = useState(entry?.note ?? '')
+
+  if (!entry) {
+    return (
+      <button
+        onClick={() => onSave()}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 rounded-xl text-sm md:text-base font-medium border border-white/10 cursor-pointer transition"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+        </svg>
+        Mark as watched
+      </button>
+    )
+  }
+
+  return (
+    <div className="p-3 bg-white/5 rounded-xl border border-white/10 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 text-sm font-medium text-green-400">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+          Watched
+        </span>
+        <input
+          type="date"
+          value={entry.watchedOn}
+          max={toDateInputValue()}
+          onChange={(e) => e.target.value && onSave({ watchedOn: e.target.value })}
+          className="px-2 py-1 bg-zinc-800 border border-white/10 rounded-lg text-xs text-white focus:outline-none focus:border-red-500/50"
+        />
+      </div>
+
+      {/* Personal Rating */}
+      <div className="flex items-center gap-1">
+        {RATINGS.map(value => (
+          <button
+            key={value}
+            onClick={() => onSave({ rating: entry.rating === value ? null : value })}
+            className={`flex-1 py-1 rounded text-xs font-medium cursor-pointer transition ${
+              entry.rating !== null && value <= entry.rating
+                ? 'bg-yellow-500 text-zinc-900'
+                : 'bg-white/5 text-zinc-400 hover:bg-white/10 hover:text-white'
+            }`}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={() => note.trim() !== entry.note && onSave({ note })}
+        maxLength={WATCHED_NOTE_MAX_LENGTH}
+        rows={2}
+        placeholder="Add a short note..."
+        className="w-full px-3 py-2 bg-zinc-800 border border-white/10 rounded-lg text-sm text-white placeholder-zinc-500 resize-none focus:outline-none focus:border-red-500/50"
+      />
+
+      <button
+        onClick={onRemove}
+        className="text-xs text-zinc-500 hover:text-red-400 cursor-pointer transition-colors"
+      >
+        Remove from watched
+      </button>
+    </div>
+  )
+})
+
+WatchedEditor.displayName = 'WatchedEditor'
+
+export default WatchedEditor
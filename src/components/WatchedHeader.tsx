@@ -0,0 +1,52 @@
+import { memo } from 'react'
+import { Link } from 'react-router-dom'
+import type { User } from '../lib/appwrite'
+
+interface WatchedHeaderProps {
+  user: User | null
+  authLoading: boolean
+  watchedCount: number
+  onSignIn: () => void
+}
+
+const WatchedHeader = memo(({
+  user,
+  authLoading,
+  watchedCount,
+  onSignIn
+}: WatchedHeaderProps) => {
+  return (
+    <div className="mb-6 flex items-center justify-between gap-4">
+      <div>
+        <h2 className="text-xl font-semibold">Watched</h2>
+        <p className="text-sm text-zinc-500 mt-1">
+          {watchedCount === 0
+            ? 'Nothing here yet. Mark movies as watched from their details view.'
+            : `${watchedCount} movie${watchedCount === 1 ? '' : 's'} watched`}
+        </p>
+        {!authLoading && !user && (
+          <p className="text-xs text-zinc-500 mt-1">
+            Saved on this device.{' '}
+            <button onClick={onSignIn} className="text-red-400 hover:text-red-300 cursor-pointer transition-colors">
+              Sign in
+            </button>{' '}
+            to keep your history and ratings everywhere.
+          </p>
+        )}
+      </div>
+      <Link
+        to="/"
+        className="flex items-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-sm font-medium border border-white/10 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+        </svg>
+        <span className="hidden sm:inline">Back to Movies</span>
+      </Link>
+    </div>
+  )
+})
+
+WatchedHeader.displayName = 'WatchedHeader'
+
+export default WatchedHeader
@@ -0,0 +1,109 @@
+import { memo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import type { Watchlist } from '../types'
+
+interface WatchlistHeaderProps {
+  list: Watchlist
+  onRename: (name: string) => void
+  onDelete: () => void
+}
+
+const WatchlistHeader = memo(({ list, onRename, onDelete }: WatchlistHeaderProps) => {
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [name, setName] = useState(list.name)
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const count = list.movieIds.length
+
+  const startRename = () => {
+    setName(list.name)
+    setIsRenaming(true)
+  }
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (name.trim() && name.trim() !== list.name) onRename(name)
+    setIsRenaming(false)
+  }
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      <div className="min-w-0">
+        {isRenaming ? (
+          <form onSubmit={handleRename} className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              className="min-w-0 px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-lg font-semibold focus:outline-none focus:border-red-500/50"
+            />
+            <button type="submit" className="px-3 py-1.5 bg-red-500 hover:bg-red-600 rounded-lg text-sm font-medium cursor-pointer transition">
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsRenaming(false)}
+              className="px-3 py-1.5 text-sm text-zinc-400 hover:text-white cursor-pointer transition"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <h2 className="text-xl font-semibold truncate">{list.name}</h2>
+        )}
+        <p className="text-sm text-zinc-500 mt-1">
+          {count === 0
+            ? 'This list is empty. Add movies from any movie card or details view.'
+            : `${count} movie${count === 1 ? '' : 's'}`}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2 shrink-0">
+        {!isRenaming && (
+          <button
+            onClick={startRename}
+            className="px-3 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-sm font-medium border border-white/10 cursor-pointer transition-colors"
+          >
+            Rename
+          </button>
+        )}
+        {confirmingDelete ? (
+          <>
+            <button
+              onClick={onDelete}
+              className="px-3 py-2 bg-red-500 hover:bg-red-600 rounded-xl text-sm font-medium cursor-pointer transition-colors"
+            >
+              Delete list
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(false)}
+              className="px-3 py-2 text-sm text-zinc-400 hover:text-white cursor-pointer transition-colors"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setConfirmingDelete(true)}
+            className="px-3 py-2 bg-white/5 hover:bg-red-500/10 rounded-xl text-sm font-medium text-zinc-400 hover:text-red-400 border border-white/10 cursor-pointer transition-colors"
+          >
+            Delete
+          </button>
+        )}
+        <Link
+          to="/lists"
+          className="flex items-center gap-2 px-3 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-sm font-medium border border-white/10 transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          <span className="hidden sm:inline">All Lists</span>
+        </Link>
+      </div>
+    </div>
+  )
+})
+
+WatchlistHeader.displayName = 'WatchlistHeader'
+
+export default WatchlistHeader
@@ -0,0 +1,99 @@
+import { memo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import type { User } from '../lib/appwrite'
+import type { Watchlist } from '../types'
+
+interface WatchlistsOverviewProps {
+  watchlists: Watchlist[]
+  loading: boolean
+  user: User | null
+  authLoading: boolean
+  onCreate: (name: string) => void
+  onSignIn: () => void
+}
+
+const WatchlistsOverview = memo(({
+  watchlists,
+  loading,
+  user,
+  authLoading,
+  onCreate,
+  onSignIn
+}: WatchlistsOverviewProps) => {
+  const [newListName, setNewListName] = useState('')
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newListName.trim()) return
+    onCreate(newListName)
+    setNewListName('')
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold">My Lists</h2>
+        <p className="text-sm text-zinc-500 mt-1">
+          {!authLoading && !user ? (
+            <>
+              Lists are saved on this device.{' '}
+              <button onClick={onSignIn} className="text-red-400 hover:text-red-300 cursor-pointer transition-colors">
+                Sign in
+              </button>{' '}
+              to sync them across devices.
+            </>
+          ) : (
+            'Group movies into your own lists, like "Watch this weekend" or "Kids night".'
+          )}
+        </p>
+      </div>
+
+      {/* Create List */}
+      <form onSubmit={handleCreate} className="flex gap-2 mb-6 max-w-md">
+        <input
+          type="text"
+          placeholder="New list name..."
+          value={newListName}
+          onChange={(e) => setNewListName(e.target.value)}
+          className="flex-1 min-w-0 px-4 py-2.5 bg-white/5 border border-white/10 rounded-xl text-sm placeholder-zinc-500 focus:outline-none focus:border-red-500/50 focus:bg-white/10 transition-all"
+        />
+        <button
+          type="submit"
+          disabled={!newListName.trim()}
+          className="px-4 py-2.5 bg-red-500 hover:bg-red-600 disabled:opacity-50 disabled:hover:bg-red-500 rounded-xl text-sm font-medium cursor-pointer disabled:cursor-default transition"
+        >
+          Create
+        </button>
+      </form>
+
+      {/* Lists */}
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <div className="w-8 h-8 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
+        </div>
+      ) : watchlists.length === 0 ? (
+        <p className="py-10 text-center text-zinc-500">No lists yet. Create one above or from any movie.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {watchlists.map(list => (
+            <Link
+              key={list.id}
+              to={`/lists/${encodeURIComponent(list.id)}`}
+              className="flex items-center justify-between gap-3 p-4 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 transition-colors"
+            >
+              <span className="font-medium truncate">{list.name}</span>
+              <span className="shrink-0 text-xs text-zinc-500">
+                {list.movieIds.length} movie{list.movieIds.length === 1 ? '' : 's'}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+})
+
+WatchlistsOverview.displayName = 'WatchlistsOverview'
+
+export default WatchlistsOverview
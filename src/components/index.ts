@@ -5,14 +5,35 @@ export { AuthModal, GuestPromptModal } from './AuthModal'
 export { default as MovieCard } from './MovieCard'
 export { default as MoviePlaceholder } from './MoviePlaceholder'
 export { default as MovieModal } from './MovieModal'
+export { default as MovieModalStatus } from './MovieModalStatus'
 export { default as MovieGrid } from './MovieGrid'
+export { default as AddToListMenu } from './AddToListMenu'
+export { default as WatchedEditor } from './WatchedEditor'
 export { default as LoadingSkeleton } from './LoadingSkeleton'
 
 // Layout components
 export { default as Navbar } from './Navbar'
 export { default as GenrePills } from './GenrePills'
+export { default as SelectedGenres } from './SelectedGenres'
 export { default as FavoritesHeader } from './FavoritesHeader'
+export { default as FavoritesTransfer } from './FavoritesTransfer'
+export { default as MergeSummaryBanner } from './MergeSummaryBanner'
+export { default as VerifyEmailBanner } from './VerifyEmailBanner'
+export { default as VerifyEmailPage } from './VerifyEmailPage'
+export { default as ShareFavoritesPanel } from './ShareFavoritesPanel'
+export { default as ResetPasswordPage } from './ResetPasswordPage'
+export { default as AuthCallbackPage } from './AuthCallbackPage'
+export { default as AccountPage } from './AccountPage'
+export { default as OAuthButtons } from './OAuthButtons'
+export { default as OAuthCallbackPage } from './OAuthCallbackPage'
+export { default as PasswordStrengthMeter } from './PasswordStrengthMeter'
+export { default as SharedFavoritesHeader } from './SharedFavoritesHeader'
+export { default as WatchlistsOverview } from './WatchlistsOverview'
+export { default as WatchlistHeader } from './WatchlistHeader'
+export { default as WatchedHeader } from './WatchedHeader'
 export { default as Pagination } from './Pagination'
+export { default as BrowseModeToggle } from './BrowseModeToggle'
+export { default as FilterPanel } from './FilterPanel'
 export { default as Footer } from './Footer'
 export { default as EmptyState } from './EmptyState'
 
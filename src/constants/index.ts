@@ -1,6 +1,54 @@
+import { OAuthProvider } from 'appwrite'
+import type { MovieFilters, SortOption, FavoritesSort } from '../types'
+
 // API
 export const API_BASE_URL = 'https://0kadddxyh3.execute-api.us-east-1.amazonaws.com'
 export const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY || ''
+// Max movie detail requests in flight at once
+export const MOVIE_DETAILS_CONCURRENCY = 6
+
+// Pagination
+export const FAVORITES_PAGE_SIZE = 15
+
+export const FAVORITES_SORT_OPTIONS: { value: FavoritesSort; label: string }[] = [
+  { value: 'added-desc', label: 'Recently added' },
+  { value: 'added-asc', label: 'Oldest added' },
+  { value: 'title-asc', label: 'Title: A-Z' },
+  { value: 'rating-desc', label: 'Rating: high to low' }
+]
+
+// Passwords (Appwrite requires at least 8 characters)
+export const MIN_PASSWORD_LENGTH = 8
+// Lowest strength score accepted for a new password
+export const MIN_PASSWORD_SCORE = 2
+// Appwrite magic URL tokens stay valid for one hour
+export const MAGIC_LINK_TTL_MS = 60 * 60 * 1000
+
+// Set VITE_REQUIRE_VERIFIED_EMAIL=true to keep public sharing locked until the email is verified
+export const REQUIRE_VERIFIED_EMAIL = import.meta.env.VITE_REQUIRE_VERIFIED_EMAIL === 'true'
+
+// OAuth sign-in providers, enabled per deployment (e.g. VITE_OAUTH_PROVIDERS=github,google).
+// Each one also has to be enabled in the Appwrite console.
+export const OAUTH_PROVIDERS: OAuthProvider[] = (import.meta.env.VITE_OAUTH_PROVIDERS || '')
+  .split(',')
+  .map((provider: string) => provider.trim())
+  .filter((provider: string): provider is OAuthProvider =>
+    (Object.values(OAuthProvider) as string[]).includes(provider)
+  )
+
+// Display names where capitalizing the provider ID isn't enough
+export const OAUTH_PROVIDER_NAMES: Record<string, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  linkedin: 'LinkedIn',
+  paypal: 'PayPal',
+  paypalSandbox: 'PayPal Sandbox',
+  wordpress: 'WordPress',
+  oidc: 'OpenID Connect'
+}
+
+// Watched history
+export const WATCHED_NOTE_MAX_LENGTH = 200
 
 // Genre list
 export const GENRES = [
@@ -25,3 +73,27 @@ export const GENRES = [
 ] as const
 
 export type GenreType = typeof GENRES[number]
+
+// Grid filters
+export const DEFAULT_MOVIE_FILTERS: MovieFilters = {
+  sort: 'default',
+  yearMin: null,
+  yearMax: null,
+  minRating: null,
+  runtimeMin: null,
+  runtimeMax: null,
+  genres: []
+}
+
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'default', label: 'Relevance' },
+  { value: 'rating-desc', label: 'Rating: high to low' },
+  { value: 'rating-asc', label: 'Rating: low to high' },
+  { value: 'year-desc', label: 'Newest first' },
+  { value: 'year-asc', label: 'Oldest first' },
+  { value: 'title-asc', label: 'Title: A-Z' },
+  { value: 'title-desc', label: 'Title: Z-A' }
+]
+
+// Runtime bounds offered in the filter panel (minutes)
+export const RUNTIME_OPTIONS = [60, 90, 120, 150, 180]
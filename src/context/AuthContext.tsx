@@ -1,5 +1,28 @@
-import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react'
-import { authService, favoritesService, type User, type Favorite } from '../lib/appwrite'
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react'
+import type { OAuthProvider } from 'appwrite'
+import {
+  authService,
+  favoritesService,
+  sharesService,
+  type User,
+  type Favorite,
+  type FavoriteChange,
+  type FavoritesShare
+} from '../lib/appwrite'
+import { moviesApi, NotFoundError } from '../lib/moviesApi'
+import {
+  getQueuedMutations,
+  saveQueuedMutations,
+  enqueueMutation,
+  applyPendingMutations,
+  getMutationKey,
+  MAX_REPLAY_ATTEMPTS,
+  FAVORITES_QUEUE_KEY,
+  type FavoriteMutation
+} from '../lib/favoritesQueue'
+import type { FavoriteSyncStatus, FavoritesMergeSummary, Movie } from '../types'
+import { getNumericRating } from '../utils'
+import { REQUIRE_VERIFIED_EMAIL } from '../constants'
 
 // Local storage keys
 const LOCAL_FAVORITES_KEY = 'movieFavorites'
@@ -18,23 +41,88 @@ const saveLocalFavorites = (ids: string[]) => {
   localStorage.setItem(LOCAL_FAVORITES_KEY, JSON.stringify(ids))
 }
 
+const sortNewestFirst = (favorites: Favorite[]): Favorite[] =>
+  [...favorites].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+// Apply a realtime favorites change, keeping one entry per movie
+const applyFavoriteChange = (favorites: Favorite[], { type, favorite }: FavoriteChange): Favorite[] => {
+  const others = favorites.filter(f => f.$id !== favorite.$id)
+  if (type === 'delete') return others
+  if (type === 'create' && others.some(f => f.movieId === favorite.movieId)) return favorites
+  return sortNewestFirst([favorite, ...others])
+}
+
+// Guest-to-cloud merge retries
+const MERGE_ATTEMPTS = 3
+const MERGE_RETRY_DELAY_MS = 1000
+
+// Delay before replaying queued favorites again while online (multiplied by attempts)
+const REPLAY_RETRY_DELAY_MS = 5000
+
+// Users whose duplicate favorites were already cleaned up this session
+const dedupedUsers = new Set<string>()
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Run a merge step until it succeeds (null means it failed), backing off between attempts
+const withRetry = async <T,>(step: () => Promise<T | null>): Promise<T | null> => {
+  for (let attempt = 1; attempt <= MERGE_ATTEMPTS; attempt++) {
+    const result = await step()
+    if (result !== null) return result
+    if (attempt < MERGE_ATTEMPTS) await wait(MERGE_RETRY_DELAY_MS * attempt)
+  }
+  return null
+}
+
+// Look up a favorite's title/poster/rating - 'missing' when the movie no longer exists
+const fetchFavoriteMovie = async (movieId: string): Promise<Movie | 'missing' | null> => {
+  try {
+    return await moviesApi.getMovie(movieId)
+  } catch (err) {
+    return err instanceof NotFoundError ? 'missing' : null
+  }
+}
+
 interface AuthContextType {
   user: User | null
   loading: boolean
+  // Features gated on a verified email (sharing) are locked for this user
+  verificationRequired: boolean
+  sendVerificationEmail: () => Promise<void>
+  verifyEmail: (userId: string, secret: string) => Promise<void>
   cloudFavorites: Favorite[]
   localFavorites: string[]
+  // Signed-in favorites changes that haven't reached the server yet
+  favoriteSyncStatus: Map<string, FavoriteSyncStatus>
+  // More pages of cloud favorites are still being loaded
+  loadingMoreFavorites: boolean
+  // Public share link for the user's favorites (null when not shared)
+  favoritesShare: FavoritesShare | null
+  shareFavorites: () => Promise<boolean>
+  revokeFavoritesShare: () => Promise<boolean>
   login: (email: string, password: string) => Promise<void>
   signup: (email: string, password: string, name: string) => Promise<void>
   logout: () => Promise<void>
   sendMagicLink: (email: string) => Promise<void>
+  verifyMagicLink: (userId: string, secret: string) => Promise<void>
   forgotPassword: (email: string) => Promise<void>
+  resetPassword: (userId: string, secret: string, password: string) => Promise<void>
+  signInWithOAuth: (provider: OAuthProvider, returnTo?: string) => void
+  completeOAuthSignIn: () => Promise<boolean>
+  updateName: (name: string) => Promise<void>
+  updateEmail: (email: string, password: string) => Promise<void>
+  updatePassword: (password: string, oldPassword?: string) => Promise<void>
+  deleteAccount: () => Promise<void>
   addToCloudFavorites: (movieId: string, title: string, poster?: string, rating?: number) => Promise<void>
   removeFromCloudFavorites: (movieId: string) => Promise<void>
   isMovieInCloudFavorites: (movieId: string) => boolean
   addToLocalFavorites: (movieId: string) => void
   removeFromLocalFavorites: (movieId: string) => void
   isInFavorites: (movieId: string) => boolean
-  syncLocalToCloud: (movieData: Map<string, { title: string; poster?: string; rating?: number }>) => Promise<void>
+  syncLocalToCloud: () => Promise<void>
+  merging: boolean
+  mergeSummary: FavoritesMergeSummary | null
+  dismissMergeSummary: () => void
   refreshFavorites: () => Promise<void>
 }
 
@@ -42,42 +130,99 @@ const AuthContext = createContext<AuthContextType | null>(null)
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  // Profile edits replace the user object, so per-account work keys on the ID
+  const userId = user?.$id ?? null
   const [loading, setLoading] = useState(true)
-  const [cloudFavorites, setCloudFavorites] = useState<Favorite[]>([])
+  // Favorites as last confirmed by the server - queued changes are applied on top
+  const [serverFavorites, setServerFavorites] = useState<Favorite[]>([])
+  const [loadingMoreFavorites, setLoadingMoreFavorites] = useState(false)
+  const [favoritesShare, setFavoritesShare] = useState<FavoritesShare | null>(null)
+  // Read by replays and merges, which add favorites with the matching visibility
+  const favoritesShareRef = useRef<FavoritesShare | null>(null)
+  const [queue, setQueue] = useState<FavoriteMutation[]>(getQueuedMutations)
+  // Mirrors queue so replays always see the latest mutations
+  const queueRef = useRef(queue)
+  const replayingRef = useRef(false)
+  const replayAgainRef = useRef(false)
+  const replayTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Keys of the queued changes being sent right now - those can no longer be cancelled
+  const inFlightRef = useRef(new Set<string>())
+  // Movies this tab removed itself, so their realtime delete events aren't taken for
+  // removals made on another device (cleared when the movie is added again)
+  const ownRemovalsRef = useRef(new Set<string>())
   const [localFavorites, setLocalFavorites] = useState<string[]>(getLocalFavorites)
+  const [merging, setMerging] = useState(false)
+  const [mergeSummary, setMergeSummary] = useState<FavoritesMergeSummary | null>(null)
+  // Guards against overlapping merges (e.g. effects running twice)
+  const mergingRef = useRef(false)
+
+  const updateQueue = useCallback((update: (queue: FavoriteMutation[]) => FavoriteMutation[]) => {
+    queueRef.current = update(queueRef.current)
+    saveQueuedMutations(queueRef.current)
+    setQueue(queueRef.current)
+  }, [])
 
   // Check for existing session on mount
   useEffect(() => {
     checkSession()
   }, [])
 
-  // Fetch favorites when user changes
+  // Fetch favorites when the signed-in account changes (not on profile edits)
   useEffect(() => {
-    if (user) {
+    if (userId) {
       fetchFavorites()
     } else {
-      setCloudFavorites([])
+      setServerFavorites([])
     }
-  }, [user])
+  }, [userId])
 
-  // Check for magic link or password reset in URL
+  // Clean up duplicate favorites left by older versions (once per user per session)
   useEffect(() => {
-    const urlParams = new URLSearchParams(window.location.search)
-    const userId = urlParams.get('userId')
-    const secret = urlParams.get('secret')
-
-    if (userId && secret) {
-      // Handle magic link verification
-      authService.verifyMagicLink(userId, secret)
-        .then(() => {
-          checkSession()
-          // Clean up URL
-          window.history.replaceState({}, '', window.location.pathname)
-        })
-        .catch(() => {
-          // Silently handle magic link errors
-        })
+    if (userId && !dedupedUsers.has(userId)) {
+      dedupedUsers.add(userId)
+      favoritesService.dedupeFavorites(userId)
     }
+  }, [userId])
+
+  // Load the user's public share, if any
+  useEffect(() => {
+    if (!userId) return
+    sharesService.getUserShare(userId).then(share => {
+      favoritesShareRef.current = share
+      setFavoritesShare(share)
+    })
+  }, [userId])
+
+  // Reflect favorites changed on other devices (or in other tabs) as they happen
+  useEffect(() => {
+    if (!userId) return
+    return favoritesService.subscribe(userId, change => {
+      setServerFavorites(prev => applyFavoriteChange(prev, change))
+      // A removal made elsewhere is newer than any add for that movie still waiting
+      // here, so those adds are dropped instead of bringing the favorite back
+      const { movieId } = change.favorite
+      if (change.type === 'delete' && !ownRemovalsRef.current.has(movieId)) {
+        updateQueue(queue => queue.filter(m =>
+          m.userId !== userId || m.movieId !== movieId || m.type !== 'add' || inFlightRef.current.has(getMutationKey(m))
+        ))
+      }
+    })
+  }, [userId, updateQueue])
+
+  // Guest favorites and queued changes edited in another tab of this browser
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      // A null key means storage was cleared
+      if (e.key === null || e.key === LOCAL_FAVORITES_KEY) {
+        setLocalFavorites(getLocalFavorites())
+      }
+      if (e.key === null || e.key === FAVORITES_QUEUE_KEY) {
+        queueRef.current = getQueuedMutations()
+        setQueue(queueRef.current)
+      }
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
   }, [])
 
   const checkSession = async () => {
@@ -93,13 +238,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const fetchFavorites = async () => {
     if (!user) return
-    try {
-      const favorites = await favoritesService.getFavorites(user.$id)
-      setCloudFavorites(favorites)
-    } catch {
-      // Silently handle fetch errors
-      setCloudFavorites([])
-    }
+    // Show each page as it arrives, but don't shrink a list that's already loaded
+    const favorites = await favoritesService.loadFavorites(user.$id, loaded => {
+      setServerFavorites(prev => prev.length > loaded.length ? prev : loaded)
+      setLoadingMoreFavorites(true)
+    })
+    setLoadingMoreFavorites(false)
+    // Keep what we have when offline instead of showing an empty list
+    if (favorites) setServerFavorites(favorites)
   }
 
   const login = useCallback(async (email: string, password: string) => {
@@ -112,51 +258,244 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await checkSession()
   }, [])
 
-  const logout = useCallback(async () => {
-    await authService.logout()
+  // Reset everything tied to the signed-in user
+  const clearUserState = useCallback(() => {
     setUser(null)
-    setCloudFavorites([])
+    setServerFavorites([])
+    setMergeSummary(null)
+    favoritesShareRef.current = null
+    setFavoritesShare(null)
   }, [])
 
+  const logout = useCallback(async () => {
+    await authService.logout()
+    clearUserState()
+  }, [clearUserState])
+
   const sendMagicLink = useCallback(async (email: string) => {
     await authService.sendMagicLink(email)
   }, [])
 
+  // Sign in from a magic link (see the /auth/callback page)
+  const verifyMagicLink = useCallback(async (userId: string, secret: string) => {
+    await authService.verifyMagicLink(userId, secret)
+    await checkSession()
+  }, [])
+
   const forgotPassword = useCallback(async (email: string) => {
     await authService.forgotPassword(email)
   }, [])
 
-  const addToCloudFavorites = useCallback(async (
-    movieId: string,
-    title: string,
-    poster?: string,
-    rating?: number
-  ) => {
+  const resetPassword = useCallback(async (userId: string, secret: string, password: string) => {
+    await authService.resetPassword(userId, secret, password)
+  }, [])
+
+  const sendVerificationEmail = useCallback(async () => {
+    await authService.sendVerificationEmail()
+  }, [])
+
+  // Complete verification from the emailed link (see the /verify-email page)
+  const verifyEmail = useCallback(async (userId: string, secret: string) => {
+    await authService.confirmVerification(userId, secret)
+    setUser(prev => prev && prev.$id === userId ? { ...prev, emailVerification: true } : prev)
+  }, [])
+
+  const verificationRequired = REQUIRE_VERIFIED_EMAIL && !!user && !user.emailVerification
+
+  // Leaves the app for the provider's sign-in page
+  const signInWithOAuth = useCallback((provider: OAuthProvider, returnTo?: string) => {
+    authService.signInWithOAuth(provider, returnTo)
+  }, [])
+
+  // Back from the provider (see the /auth/oauth/success page)
+  const completeOAuthSignIn = useCallback(async () => {
+    const currentUser = await authService.completeOAuthSignIn()
+    setUser(currentUser)
+    return !!currentUser
+  }, [])
+
+  const updateName = useCallback(async (name: string) => {
+    const updated = await authService.updateName(name)
+    setUser(updated)
+    // The share page shows the owner's name, so carry the change over to an active share
+    const share = favoritesShareRef.current
+    if (!share) return
+    const renamed = await sharesService.updateOwnerName(share, updated.name)
+    if (renamed && favoritesShareRef.current?.$id === renamed.$id) {
+      favoritesShareRef.current = renamed
+      setFavoritesShare(renamed)
+    }
+  }, [])
+
+  const updateEmail = useCallback(async (email: string, password: string) => {
+    setUser(await authService.updateEmail(email, password))
+  }, [])
+
+  const updatePassword = useCallback(async (password: string, oldPassword?: string) => {
+    setUser(await authService.updatePassword(password, oldPassword))
+  }, [])
+
+  // Delete the user's data and deactivate the account, then sign out locally
+  const deleteAccount = useCallback(async () => {
     if (!user) return
-    try {
-      const favorite = await favoritesService.addFavorite(user.$id, movieId, title, poster, rating)
+    await authService.deleteAccount(user.$id)
+    // Queued favorites changes would only fail against the deleted data
+    updateQueue(current => current.filter(m => m.userId !== user.$id))
+    clearUserState()
+  }, [user, updateQueue, clearUserState])
+
+  // Send one queued change. The movie's server copy is checked first (just that movie,
+  // not the whole list), so changes made elsewhere win over stale ones: an add of a
+  // movie that's already saved and a remove of one that's gone - or was favorited
+  // again after the remove was queued - only adopt the server's state.
+  const sendMutation = useCallback(async (userId: string, mutation: FavoriteMutation): Promise<boolean> => {
+    const current = await favoritesService.getFavoriteByMovie(userId, mutation.movieId)
+    if (current === undefined) return false
+
+    if (mutation.type === 'add') {
+      ownRemovalsRef.current.delete(mutation.movieId)
+      const favorite = current ?? await favoritesService.addFavorite(
+        userId, mutation.movieId, mutation.title || '', mutation.poster, mutation.rating,
+        !!favoritesShareRef.current
+      )
       if (favorite) {
-        setCloudFavorites(prev => [favorite, ...prev])
+        setServerFavorites(prev => sortNewestFirst([...prev.filter(f => f.movieId !== favorite.movieId), favorite]))
       }
-    } catch {
-      // Silently handle add errors
+      return !!favorite
     }
-  }, [user])
 
-  const removeFromCloudFavorites = useCallback(async (movieId: string) => {
-    if (!user) return
-    const favorite = cloudFavorites.find(f => f.movieId === movieId)
-    if (favorite) {
-      try {
-        const success = await favoritesService.removeFavorite(favorite.$id)
-        if (success) {
-          setCloudFavorites(prev => prev.filter(f => f.$id !== favorite.$id))
+    if (current && current.createdAt > mutation.queuedAt) {
+      setServerFavorites(prev => sortNewestFirst([...prev.filter(f => f.movieId !== current.movieId), current]))
+      return true
+    }
+    if (current) {
+      ownRemovalsRef.current.add(mutation.movieId)
+      if (!await favoritesService.removeFavoriteByMovie(userId, mutation.movieId)) return false
+    }
+    setServerFavorites(prev => prev.filter(f => f.movieId !== mutation.movieId))
+    return true
+  }, [])
+
+  // Replay queued favorites changes in order, one at a time
+  const replayQueue = useCallback(async () => {
+    if (!userId) return
+    if (replayingRef.current) {
+      replayAgainRef.current = true
+      return
+    }
+    if (replayTimerRef.current) {
+      clearTimeout(replayTimerRef.current)
+      replayTimerRef.current = null
+    }
+
+    replayingRef.current = true
+    try {
+      do {
+        replayAgainRef.current = false
+        const pending = queueRef.current.filter(m => m.userId === userId && m.status === 'pending')
+        if (pending.length === 0 || !navigator.onLine) break
+
+        const settled = new Set<FavoriteMutation>()
+        const failed = new Set<FavoriteMutation>()
+
+        for (const mutation of pending) {
+          const key = getMutationKey(mutation)
+          // Dropped meanwhile (e.g. removed on another device)
+          if (!queueRef.current.some(m => getMutationKey(m) === key)) continue
+
+          inFlightRef.current.add(key)
+          let ok: boolean
+          try {
+            ok = await sendMutation(userId, mutation)
+          } finally {
+            inFlightRef.current.delete(key)
+          }
+
+          if (ok) {
+            settled.add(mutation)
+          } else if (!navigator.onLine) {
+            // Connection dropped - keep the rest for the 'online' event
+            break
+          } else {
+            failed.add(mutation)
+          }
         }
-      } catch {
-        // Silently handle remove errors
+
+        updateQueue(queue => queue.flatMap(m => {
+          if (settled.has(m)) return []
+          if (!failed.has(m)) return [m]
+          const attempts = m.attempts + 1
+          return [{ ...m, attempts, status: attempts >= MAX_REPLAY_ATTEMPTS ? 'failed' as const : m.status }]
+        }))
+      } while (replayAgainRef.current)
+    } finally {
+      replayingRef.current = false
+    }
+
+    // Transient server errors - try again later while still online
+    const retry = queueRef.current.find(m => m.userId === userId && m.status === 'pending')
+    if (retry && navigator.onLine) {
+      replayTimerRef.current = setTimeout(() => {
+        replayTimerRef.current = null
+        replayQueue()
+      }, REPLAY_RETRY_DELAY_MS * Math.max(1, retry.attempts))
+    }
+  }, [userId, updateQueue, sendMutation])
+
+  // Replay queued changes after signing in and whenever the connection returns
+  useEffect(() => {
+    if (!userId) return
+    replayQueue()
+    window.addEventListener('online', replayQueue)
+    return () => {
+      window.removeEventListener('online', replayQueue)
+      if (replayTimerRef.current) {
+        clearTimeout(replayTimerRef.current)
+        replayTimerRef.current = null
       }
     }
-  }, [user, cloudFavorites])
+  }, [userId, replayQueue])
+
+  // Queue a favorites change - it shows up immediately and syncs in the background
+  const queueFavoriteChange = useCallback((mutation: Pick<FavoriteMutation, 'type' | 'movieId' | 'title' | 'poster' | 'rating'>) => {
+    if (!userId) return
+    updateQueue(queue => enqueueMutation(queue, {
+      ...mutation,
+      userId: userId,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending'
+    }, inFlightRef.current))
+    replayQueue()
+  }, [userId, updateQueue, replayQueue])
+
+  const addToCloudFavorites = useCallback(async (
+    movieId: string,
+    title: string,
+    poster?: string,
+    rating?: number
+  ) => {
+    queueFavoriteChange({ type: 'add', movieId, title, poster, rating })
+  }, [queueFavoriteChange])
+
+  const removeFromCloudFavorites = useCallback(async (movieId: string) => {
+    queueFavoriteChange({ type: 'remove', movieId })
+  }, [queueFavoriteChange])
+
+  const userQueue = useMemo(
+    () => user ? queue.filter(m => m.userId === user.$id) : [],
+    [user, queue]
+  )
+
+  const cloudFavorites = useMemo(
+    () => applyPendingMutations(serverFavorites, userQueue),
+    [serverFavorites, userQueue]
+  )
+
+  const favoriteSyncStatus = useMemo(
+    () => new Map(userQueue.map(m => [m.movieId, m.status])),
+    [userQueue]
+  )
 
   const isMovieInCloudFavorites = useCallback((movieId: string): boolean => {
     return cloudFavorites.some(f => f.movieId === movieId)
@@ -188,33 +527,98 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return localFavorites.includes(movieId)
   }, [user, localFavorites, isMovieInCloudFavorites])
 
-  // Sync local favorites to cloud when user logs in
-  const syncLocalToCloud = useCallback(async (
-    movieData: Map<string, { title: string; poster?: string; rating?: number }>
-  ) => {
-    if (!user) {
-      return
-    }
-    
-    // Always clear local favorites first - they either get synced or are already in cloud
-    const localToSync = [...localFavorites]
-    setLocalFavorites([])
-    saveLocalFavorites([])
-    
+  // Merge local (guest) favorites into the account. Metadata is fetched by ID,
+  // failed steps are retried, and local entries are only cleared once confirmed in the cloud.
+  const syncLocalToCloud = useCallback(async () => {
+    if (!userId || mergingRef.current) return
+    const localToSync = getLocalFavorites()
     if (localToSync.length === 0) return
-    
-    // Get IDs that are in local but not in cloud
-    const cloudIds = new Set(cloudFavorites.map(f => f.movieId))
-    const toSync = localToSync.filter(id => !cloudIds.has(id))
-    
-    // Sync each to cloud
-    for (const movieId of toSync) {
-      const data = movieData.get(movieId)
-      if (data) {
-        await addToCloudFavorites(movieId, data.title, data.poster, data.rating)
+
+    mergingRef.current = true
+    setMerging(true)
+    try {
+      // Unknown cloud state just means every favorite gets saved - adds of existing ones are no-ops
+      const cloudIds = new Set(((await favoritesService.loadFavorites(userId)) ?? []).map(f => f.movieId))
+      const added: Favorite[] = []
+      const confirmed = new Set<string>()
+      const summary: FavoritesMergeSummary = { merged: 0, alreadySaved: 0, unavailable: [], pending: [] }
+
+      for (const movieId of localToSync) {
+        if (cloudIds.has(movieId)) {
+          confirmed.add(movieId)
+          summary.alreadySaved++
+          continue
+        }
+
+        const movie = await withRetry(() => fetchFavoriteMovie(movieId))
+        if (movie === 'missing') {
+          // Nothing left to save - drop it but tell the user
+          confirmed.add(movieId)
+          summary.unavailable.push(movieId)
+          continue
+        }
+
+        const favorite = movie && await withRetry(() =>
+          favoritesService.addFavorite(
+            userId, movieId, movie.title, movie.posterUrl, getNumericRating(movie.rating), !!favoritesShareRef.current
+          )
+        )
+        if (favorite) {
+          added.push(favorite)
+          cloudIds.add(movieId)
+          confirmed.add(movieId)
+          summary.merged++
+        } else {
+          summary.pending.push(movieId)
+        }
+      }
+
+      // Re-read storage so favorites added meanwhile aren't lost
+      const remaining = getLocalFavorites().filter(id => !confirmed.has(id))
+      saveLocalFavorites(remaining)
+      setLocalFavorites(remaining)
+      if (added.length > 0) {
+        setServerFavorites(prev => {
+          const existing = new Set(prev.map(f => f.movieId))
+          return [...added.reverse().filter(f => !existing.has(f.movieId)), ...prev]
+        })
       }
+      setMergeSummary(summary)
+    } finally {
+      mergingRef.current = false
+      setMerging(false)
+    }
+  }, [userId])
+
+  // Merge guest favorites into the account after signing in
+  useEffect(() => {
+    if (userId && getLocalFavorites().length > 0) {
+      syncLocalToCloud()
+    }
+  }, [userId, syncLocalToCloud])
+
+  const dismissMergeSummary = useCallback(() => setMergeSummary(null), [])
+
+  const shareFavorites = useCallback(async () => {
+    if (!user || verificationRequired) return false
+    const share = await sharesService.createShare(user)
+    if (share) {
+      favoritesShareRef.current = share
+      setFavoritesShare(share)
+    }
+    return !!share
+  }, [user, verificationRequired])
+
+  const revokeFavoritesShare = useCallback(async () => {
+    const share = favoritesShareRef.current
+    if (!share) return true
+    const revoked = await sharesService.revokeShare(share)
+    if (revoked) {
+      favoritesShareRef.current = null
+      setFavoritesShare(null)
     }
-  }, [user, localFavorites, cloudFavorites, addToCloudFavorites])
+    return revoked
+  }, [])
 
   const refreshFavorites = useCallback(async () => {
     await fetchFavorites()
@@ -224,13 +628,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const contextValue = useMemo(() => ({
     user,
     loading,
+    verificationRequired,
+    sendVerificationEmail,
+    verifyEmail,
     cloudFavorites,
     localFavorites,
+    favoriteSyncStatus,
+    loadingMoreFavorites,
+    favoritesShare,
+    shareFavorites,
+    revokeFavoritesShare,
     login,
     signup,
     logout,
     sendMagicLink,
+    verifyMagicLink,
     forgotPassword,
+    resetPassword,
+    signInWithOAuth,
+    completeOAuthSignIn,
+    updateName,
+    updateEmail,
+    updatePassword,
+    deleteAccount,
     addToCloudFavorites,
     removeFromCloudFavorites,
     isMovieInCloudFavorites,
@@ -238,17 +658,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     removeFromLocalFavorites,
     isInFavorites,
     syncLocalToCloud,
+    merging,
+    mergeSummary,
+    dismissMergeSummary,
     refreshFavorites
   }), [
     user,
     loading,
+    verificationRequired,
+    sendVerificationEmail,
+    verifyEmail,
     cloudFavorites,
     localFavorites,
+    favoriteSyncStatus,
+    loadingMoreFavorites,
+    favoritesShare,
+    shareFavorites,
+    revokeFavoritesShare,
     login,
     signup,
     logout,
     sendMagicLink,
+    verifyMagicLink,
     forgotPassword,
+    resetPassword,
+    signInWithOAuth,
+    completeOAuthSignIn,
+    updateName,
+    updateEmail,
+    updatePassword,
+    deleteAccount,
     addToCloudFavorites,
     removeFromCloudFavorites,
     isMovieInCloudFavorites,
@@ -256,6 +695,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     removeFromLocalFavorites,
     isInFavorites,
     syncLocalToCloud,
+    merging,
+    mergeSummary,
+    dismissMergeSummary,
     refreshFavorites
   ])
 
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from 'react'
+import { watchedService, type WatchedMovie } from '../lib/appwrite'
+import { movieCache } from '../lib/movieCache'
+import { WATCHED_NOTE_MAX_LENGTH } from '../constants'
+import type { Movie, WatchedEntry } from '../types'
+import { toDateInputValue } from '../utils'
+import { useAuth } from './AuthContext'
+import { WatchedContext, type WatchedChanges } from './watched'
+
+// Local storage keys
+const LOCAL_WATCHED_KEY = 'movieWatched'
+
+// Wait before trying again when the history couldn't be loaded
+const LOAD_RETRY_DELAY_MS = 5000
+
+// Get local watched history
+const getLocalWatched = (): WatchedEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_WATCHED_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+// Save local watched history
+const saveLocalWatched = (entries: WatchedEntry[]) => {
+  localStorage.setItem(LOCAL_WATCHED_KEY, JSON.stringify(entries))
+}
+
+// Keep ratings whole numbers from 1 to 10 and notes short
+const normalizeChanges = (changes: WatchedChanges): WatchedChanges => {
+  const normalized = { ...changes }
+  if (normalized.rating != null) {
+    normalized.rating = Math.min(10, Math.max(1, Math.round(normalized.rating)))
+  }
+  if (normalized.note != null) {
+    normalized.note = normalized.note.trim().slice(0, WATCHED_NOTE_MAX_LENGTH)
+  }
+  return normalized
+}
+
+const toEntry = (doc: WatchedMovie): WatchedEntry => ({
+  movieId: doc.movieId,
+  watchedOn: doc.watchedOn,
+  rating: doc.rating ?? null,
+  note: doc.note ?? ''
+})
+
+interface CloudWatched {
+  userId: string
+  docs: WatchedMovie[]
+}
+
+interface CloudLoadResult {
+  cloud: CloudWatched
+  unsynced: WatchedEntry[]
+}
+
+// Move guest history into the account - movies already in the cloud history keep the cloud entry.
+// Returns entries that couldn't be synced so they stay on this device.
+const syncLocalToCloud = async (cloud: CloudWatched, localEntries: WatchedEntry[]): Promise<WatchedEntry[]> => {
+  const cloudIds = new Set(cloud.docs.map(d => d.movieId))
+  const unsynced: WatchedEntry[] = []
+
+  for (const entry of localEntries) {
+    if (cloudIds.has(entry.movieId)) continue
+    const { movieId, ...details } = entry
+    const doc = await watchedService.addWatched(cloud.userId, movieId, movieCache.get(movieId)?.title || '', details)
+    if (doc) {
+      cloud.docs = [...cloud.docs.filter(d => d.$id !== doc.$id), doc]
+    } else {
+      unsynced.push(entry)
+    }
+  }
+
+  return unsynced
+}
+
+// In-flight load, shared so overlapping effects don't sync guest history twice
+let pendingLoad: { userId: string; promise: Promise<CloudLoadResult | null> } | null = null
+
+// Fetch a user's history, first moving any guest history into the account. Null when
+// the history couldn't be read - guest entries aren't synced against an unknown account.
+const loadCloudWatched = (userId: string): Promise<CloudLoadResult | null> => {
+  if (pendingLoad?.userId === userId) return pendingLoad.promise
+
+  const promise = (async () => {
+    const docs = await watchedService.getWatched(userId)
+    if (!docs) return null
+    const cloud = { userId, docs }
+    const localEntries = getLocalWatched()
+    const unsynced = localEntries.length > 0 ? await syncLocalToCloud(cloud, localEntries) : []
+    return { cloud, unsynced }
+  })().finally(() => {
+    if (pendingLoad?.promise === promise) pendingLoad = null
+  })
+  pendingLoad = { userId, promise }
+  return promise
+}
+
+export function WatchedProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  // Profile edits replace the user object, so everything here keys on the ID
+  const userId = user?.$id ?? null
+  const [cloud, setCloud] = useState<CloudWatched | null>(null)
+  const [localEntries, setLocalEntries] = useState<WatchedEntry[]>(getLocalWatched)
+  const [retryCount, setRetryCount] = useState(0)
+
+  // Cloud history for the signed-in user (ignores data left over from a previous user)
+  const cloudData = cloud?.userId === userId ? cloud : null
+
+  // Fetch history when the signed-in account changes
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    loadCloudWatched(userId).then(result => {
+      if (cancelled) return
+      if (!result) {
+        retryTimer = setTimeout(() => setRetryCount(count => count + 1), LOAD_RETRY_DELAY_MS)
+        return
+      }
+      setCloud(result.cloud)
+      setLocalEntries(result.unsynced)
+      saveLocalWatched(result.unsynced)
+    })
+    return () => {
+      cancelled = true
+      clearTimeout(retryTimer)
+    }
+  }, [userId, retryCount])
+
+  // Update local history and persist it
+  const updateLocalEntries = useCallback((update: (entries: WatchedEntry[]) => WatchedEntry[]) => {
+    setLocalEntries(prev => {
+      const next = update(prev)
+      saveLocalWatched(next)
+      return next
+    })
+  }, [])
+
+  // History in one shape regardless of where it's stored, most recent first
+  const watched = useMemo<WatchedEntry[]>(() => {
+    const entries = userId ? (cloudData?.docs ?? []).map(toEntry) : localEntries
+    return [...entries].sort((a, b) => b.watchedOn.localeCompare(a.watchedOn))
+  }, [userId, localEntries, cloudData])
+
+  const watchedById = useMemo(() => new Map(watched.map(e => [e.movieId, e])), [watched])
+
+  const saveWatched = useCallback(async (movie: Movie, changes: WatchedChanges = {}) => {
+    const normalized = normalizeChanges(changes)
+
+    if (!userId) {
+      updateLocalEntries(prev => {
+        const existing = prev.find(e => e.movieId === movie.id)
+        if (existing) {
+          return prev.map(e => e.movieId === movie.id ? { ...e, ...normalized } : e)
+        }
+        return [{ movieId: movie.id, watchedOn: toDateInputValue(), rating: null, note: '', ...normalized }, ...prev]
+      })
+      return
+    }
+
+    const existing = cloudData?.docs.find(d => d.movieId === movie.id)
+    if (existing) {
+      if (Object.keys(normalized).length === 0) return
+      const doc = await watchedService.updateWatched(existing.$id, normalized)
+      if (doc) {
+        setCloud(prev => prev && { ...prev, docs: prev.docs.map(d => d.$id === doc.$id ? doc : d) })
+      }
+      return
+    }
+
+    const doc = await watchedService.addWatched(userId, movie.id, movie.title, {
+      watchedOn: toDateInputValue(),
+      rating: null,
+      note: '',
+      ...normalized
+    })
+    if (doc) {
+      setCloud(prev => prev && { ...prev, docs: [doc, ...prev.docs.filter(d => d.$id !== doc.$id)] })
+    }
+  }, [userId, cloudData, updateLocalEntries])
+
+  const removeWatched = useCallback(async (movieId: string) => {
+    if (!userId) {
+      updateLocalEntries(prev => prev.filter(e => e.movieId !== movieId))
+      return
+    }
+
+    const existing = cloudData?.docs.find(d => d.movieId === movieId)
+    if (!existing) return
+    const success = await watchedService.removeWatched(existing.$id)
+    if (success) {
+      setCloud(prev => prev && { ...prev, docs: prev.docs.filter(d => d.$id !== existing.$id) })
+    }
+  }, [userId, cloudData, updateLocalEntries])
+
+  // Memoize context value to prevent unnecessary re-renders
+  const contextValue = useMemo(() => ({
+    watched,
+    watchedById,
+    loading: !!userId && !cloudData,
+    saveWatched,
+    removeWatched
+  }), [watched, watchedById, userId, cloudData, saveWatched, removeWatched])
+
+  return (
+    <WatchedContext.Provider value={contextValue}>
+      {children}
+    </WatchedContext.Provider>
+  )
+}
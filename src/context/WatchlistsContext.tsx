@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from 'react'
+import { watchlistsService, ID, type CloudWatchlist, type WatchlistItem } from '../lib/appwrite'
+import { movieCache } from '../lib/movieCache'
+import type { Movie, Watchlist } from '../types'
+import { useAuth } from './AuthContext'
+import { WatchlistsContext } from './watchlists'
+
+// Local storage keys
+const LOCAL_WATCHLISTS_KEY = 'movieWatchlists'
+
+// Wait before trying again when the lists couldn't be loaded
+const LOAD_RETRY_DELAY_MS = 5000
+
+// Get local watchlists
+const getLocalWatchlists = (): Watchlist[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_WATCHLISTS_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+// Save local watchlists
+const saveLocalWatchlists = (lists: Watchlist[]) => {
+  localStorage.setItem(LOCAL_WATCHLISTS_KEY, JSON.stringify(lists))
+}
+
+interface CloudWatchlists {
+  userId: string
+  lists: CloudWatchlist[]
+  items: WatchlistItem[]
+}
+
+// Move guest lists into the account - lists with the same name are combined.
+// Returns the guest lists that couldn't be synced so they stay on this device.
+const syncLocalToCloud = async (cloud: CloudWatchlists, localLists: Watchlist[]): Promise<Watchlist[]> => {
+  const unsynced: Watchlist[] = []
+
+  for (const local of localLists) {
+    let list = cloud.lists.find(l => l.name.toLowerCase() === local.name.toLowerCase())
+    if (!list) {
+      const created = await watchlistsService.createWatchlist(cloud.userId, local.name)
+      if (!created) {
+        unsynced.push(local)
+        continue
+      }
+      list = created
+      cloud.lists.push(created)
+    }
+
+    const listId = list.$id
+    const existing = new Set(cloud.items.filter(i => i.listId === listId).map(i => i.movieId))
+    const failed: string[] = []
+    // Oldest first so the cloud order matches the guest list
+    for (const movieId of [...local.movieIds].reverse()) {
+      if (existing.has(movieId)) continue
+      const movie = movieCache.get(movieId)
+      const item = await watchlistsService.addItem(cloud.userId, listId, movieId, movie?.title || '', movie?.posterUrl)
+      if (item) {
+        cloud.items.unshift(item)
+      } else {
+        failed.unshift(movieId)
+      }
+    }
+    if (failed.length > 0) unsynced.push({ ...local, movieIds: failed })
+  }
+
+  return unsynced
+}
+
+interface CloudLoadResult {
+  cloud: CloudWatchlists
+  unsynced: Watchlist[]
+}
+
+// In-flight load, shared so overlapping effects don't sync guest lists twice
+let pendingLoad: { userId: string; promise: Promise<CloudLoadResult | null> } | null = null
+
+// Fetch a user's lists, first moving any guest lists into the account. Null when
+// the lists couldn't be read - guest lists aren't synced against an unknown account.
+const loadCloudWatchlists = (userId: string): Promise<CloudLoadResult | null> => {
+  if (pendingLoad?.userId === userId) return pendingLoad.promise
+
+  const promise = (async () => {
+    const [lists, items] = await Promise.all([
+      watchlistsService.getWatchlists(userId),
+      watchlistsService.getWatchlistItems(userId)
+    ])
+    if (!lists || !items) return null
+    const cloud = { userId, lists, items }
+
+    const localLists = getLocalWatchlists()
+    const unsynced = localLists.length > 0 ? await syncLocalToCloud(cloud, localLists) : []
+    return { cloud, unsynced }
+  })().finally(() => {
+    if (pendingLoad?.promise === promise) pendingLoad = null
+  })
+  pendingLoad = { userId, promise }
+  return promise
+}
+
+export function WatchlistsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  // Profile edits replace the user object, so everything here keys on the ID
+  const userId = user?.$id ?? null
+  const [cloud, setCloud] = useState<CloudWatchlists | null>(null)
+  const [localLists, setLocalLists] = useState<Watchlist[]>(getLocalWatchlists)
+  const [retryCount, setRetryCount] = useState(0)
+
+  // Cloud lists for the signed-in user (ignores data left over from a previous user)
+  const cloudData = cloud?.userId === userId ? cloud : null
+
+  // Fetch lists when the signed-in account changes
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    loadCloudWatchlists(userId).then(result => {
+      if (cancelled) return
+      if (!result) {
+        retryTimer = setTimeout(() => setRetryCount(count => count + 1), LOAD_RETRY_DELAY_MS)
+        return
+      }
+      setCloud(result.cloud)
+      setLocalLists(result.unsynced)
+      saveLocalWatchlists(result.unsynced)
+    })
+    return () => {
+      cancelled = true
+      clearTimeout(retryTimer)
+    }
+  }, [userId, retryCount])
+
+  // Update local lists and persist them
+  const updateLocalLists = useCallback((update: (lists: Watchlist[]) => Watchlist[]) => {
+    setLocalLists(prev => {
+      const next = update(prev)
+      saveLocalWatchlists(next)
+      return next
+    })
+  }, [])
+
+  // Lists in one shape regardless of where they're stored
+  const watchlists = useMemo<Watchlist[]>(() => {
+    if (!userId) return localLists
+    if (!cloudData) return []
+    return cloudData.lists.map(list => ({
+      id: list.$id,
+      name: list.name,
+      movieIds: cloudData.items.filter(i => i.listId === list.$id).map(i => i.movieId)
+    }))
+  }, [userId, localLists, cloudData])
+
+  const createWatchlist = useCallback(async (name: string, movie?: Movie): Promise<string | null> => {
+    const trimmed = name.trim()
+    if (!trimmed) return null
+
+    if (!userId) {
+      const id = ID.unique()
+      updateLocalLists(prev => [...prev, { id, name: trimmed, movieIds: movie ? [movie.id] : [] }])
+      return id
+    }
+
+    const list = await watchlistsService.createWatchlist(userId, trimmed)
+    if (!list) return null
+    const item = movie
+      ? await watchlistsService.addItem(userId, list.$id, movie.id, movie.title, movie.posterUrl)
+      : null
+    setCloud(prev => prev && {
+      ...prev,
+      lists: [...prev.lists, list],
+      items: item ? [item, ...prev.items] : prev.items
+    })
+    return list.$id
+  }, [userId, updateLocalLists])
+
+  const renameWatchlist = useCallback(async (listId: string, name: string) => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+
+    if (!userId) {
+      updateLocalLists(prev => prev.map(l => l.id === listId ? { ...l, name: trimmed } : l))
+      return
+    }
+
+    const success = await watchlistsService.renameWatchlist(listId, trimmed)
+    if (success) {
+      setCloud(prev => prev && {
+        ...prev,
+        lists: prev.lists.map(l => l.$id === listId ? { ...l, name: trimmed } : l)
+      })
+    }
+  }, [userId, updateLocalLists])
+
+  const deleteWatchlist = useCallback(async (listId: string) => {
+    if (!userId) {
+      updateLocalLists(prev => prev.filter(l => l.id !== listId))
+      return
+    }
+
+    const itemIds = (cloudData?.items ?? []).filter(i => i.listId === listId).map(i => i.$id)
+    const success = await watchlistsService.deleteWatchlist(listId, itemIds)
+    if (success) {
+      setCloud(prev => prev && {
+        ...prev,
+        lists: prev.lists.filter(l => l.$id !== listId),
+        items: prev.items.filter(i => i.listId !== listId)
+      })
+    }
+  }, [userId, cloudData, updateLocalLists])
+
+  const addToWatchlist = useCallback(async (listId: string, movie: Movie) => {
+    if (!userId) {
+      updateLocalLists(prev => prev.map(l =>
+        l.id === listId && !l.movieIds.includes(movie.id) ? { ...l, movieIds: [movie.id, ...l.movieIds] } : l
+      ))
+      return
+    }
+
+    if (cloudData?.items.some(i => i.listId === listId && i.movieId === movie.id)) return
+    const item = await watchlistsService.addItem(userId, listId, movie.id, movie.title, movie.posterUrl)
+    if (item) {
+      setCloud(prev => prev && { ...prev, items: [item, ...prev.items] })
+    }
+  }, [userId, cloudData, updateLocalLists])
+
+  const removeFromWatchlist = useCallback(async (listId: string, movieId: string) => {
+    if (!userId) {
+      updateLocalLists(prev => prev.map(l =>
+        l.id === listId ? { ...l, movieIds: l.movieIds.filter(id => id !== movieId) } : l
+      ))
+      return
+    }
+
+    const item = cloudData?.items.find(i => i.listId === listId && i.movieId === movieId)
+    if (!item) return
+    const success = await watchlistsService.removeItem(item.$id)
+    if (success) {
+      setCloud(prev => prev && { ...prev, items: prev.items.filter(i => i.$id !== item.$id) })
+    }
+  }, [userId, cloudData, updateLocalLists])
+
+  // Memoize context value to prevent unnecessary re-renders
+  const contextValue = useMemo(() => ({
+    watchlists,
+    loading: !!userId && !cloudData,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    addToWatchlist,
+    removeFromWatchlist
+  }), [
+    watchlists,
+    userId,
+    cloudData,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    addToWatchlist,
+    removeFromWatchlist
+  ])
+
+  return (
+    <WatchlistsContext.Provider value={contextValue}>
+      {children}
+    </WatchlistsContext.Provider>
+  )
+}
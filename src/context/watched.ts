@@ -0,0 +1,15 @@
+import { createContext } from 'react'
+import type { Movie, WatchedEntry } from '../types'
+
+export type WatchedChanges = Partial<Pick<WatchedEntry, 'watchedOn' | 'rating' | 'note'>>
+
+export interface WatchedContextType {
+  watched: WatchedEntry[] // most recently watched first
+  watchedById: Map<string, WatchedEntry>
+  loading: boolean
+  // Mark as watched, or update an existing entry
+  saveWatched: (movie: Movie, changes?: WatchedChanges) => Promise<void>
+  removeWatched: (movieId: string) => Promise<void>
+}
+
+export const WatchedContext = createContext<WatchedContextType | null>(null)
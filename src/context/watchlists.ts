@@ -0,0 +1,14 @@
+import { createContext } from 'react'
+import type { Movie, Watchlist } from '../types'
+
+export interface WatchlistsContextType {
+  watchlists: Watchlist[]
+  loading: boolean
+  createWatchlist: (name: string, movie?: Movie) => Promise<string | null>
+  renameWatchlist: (listId: string, name: string) => Promise<void>
+  deleteWatchlist: (listId: string) => Promise<void>
+  addToWatchlist: (listId: string, movie: Movie) => Promise<void>
+  removeFromWatchlist: (listId: string, movieId: string) => Promise<void>
+}
+
+export const WatchlistsContext = createContext<WatchlistsContextType | null>(null)
@@ -1,3 +1,12 @@
 export { useMovies } from './useMovies'
 export { useChatbot } from './useChatbot'
 export { useFavorites } from './useFavorites'
+export { useFavoriteMovies } from './useFavoriteMovies'
+export { useMovieDetails } from './useMovieDetails'
+export { useMovieFilters } from './useMovieFilters'
+export { useWatchlists } from './useWatchlists'
+export { useWatched } from './useWatched'
+export { useFavoritesTransfer } from './useFavoritesTransfer'
+export { useSharedFavorites } from './useSharedFavorites'
+export { useSessions } from './useSessions'
+export { useIdentities } from './useIdentities'
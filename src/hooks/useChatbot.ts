@@ -4,20 +4,13 @@ import type { Movie, ChatMessage } from '../types'
 
 interface UseChatbotProps {
   movies: Movie[]
+  // Sets the genre in the URL, which triggers the movies fetch
   setSelectedGenre: (genre: string) => void
-  token: string | null
-  fetchMovies: (token: string, page: number, search: string, genre: string) => void
-  searchQuery: string
-  navigate: (path: string) => void
 }
 
 export function useChatbot({
   movies,
-  setSelectedGenre,
-  token,
-  fetchMovies,
-  searchQuery,
-  navigate
+  setSelectedGenre
 }: UseChatbotProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [messages, setMessages] = useState<ChatMessage[]>([
@@ -88,8 +81,6 @@ export function useChatbot({
     // Handle clear/reset
     if (lowerMessage.includes('all movies') || lowerMessage.includes('show all') || lowerMessage.includes('clear') || lowerMessage.includes('reset')) {
       setSelectedGenre('')
-      navigate('/')
-      if (token) fetchMovies(token, 1, searchQuery, '')
       setMessages(prev => [...prev, { role: 'assistant', content: "Done! I've cleared all filters. What genre are you in the mood for?" }])
       setIsLoading(false)
       return
@@ -99,8 +90,6 @@ export function useChatbot({
     const detectedGenre = detectGenre(userMessage)
     if (detectedGenre) {
       setSelectedGenre(detectedGenre)
-      navigate('/')
-      if (token) fetchMovies(token, 1, searchQuery, detectedGenre)
       setMessages(prev => [...prev, { role: 'assistant', content: `Great choice! I've applied the ${detectedGenre} filter. Check out the movies!` }])
       setIsLoading(false)
       return
@@ -143,7 +132,7 @@ export function useChatbot({
     } finally {
       setIsLoading(false)
     }
-  }, [input, isLoading, token, searchQuery, fetchMovies, navigate, setSelectedGenre, detectGenre, getSmartResponse, movies])
+  }, [input, isLoading, setSelectedGenre, detectGenre, getSmartResponse, movies])
 
   const toggle = useCallback(() => setIsOpen(prev => !prev), [])
 
@@ -0,0 +1,103 @@
+import { useState, useCallback, useMemo, useEffect } from 'react'
+import { FAVORITES_PAGE_SIZE } from '../constants'
+import type { Movie } from '../types'
+import { getPageNumbers } from '../utils'
+import { moviesApi } from '../lib/moviesApi'
+import { movieCache } from '../lib/movieCache'
+
+// Fetch single movie details, treating failures as missing
+const fetchMovieDetails = async (movieId: string, signal?: AbortSignal): Promise<Movie | null> => {
+  try {
+    return await moviesApi.getMovie(movieId, { signal })
+  } catch {
+    return null
+  }
+}
+
+// Resolves favorite movie IDs into full movies, one page at a time
+export function useFavoriteMovies(favoriteIds: string[], enabled = true) {
+  const [currentPage, setCurrentPage] = useState(1)
+  const [resolved, setResolved] = useState<Map<string, Movie>>(new Map())
+  const [failedIds, setFailedIds] = useState<Set<string>>(new Set())
+
+  const totalResults = favoriteIds.length
+  const totalPages = Math.max(1, Math.ceil(totalResults / FAVORITES_PAGE_SIZE))
+  // Clamp page when favorites are removed from the last page
+  const page = Math.min(currentPage, totalPages)
+
+  const pageIds = useMemo(
+    () => favoriteIds.slice((page - 1) * FAVORITES_PAGE_SIZE, page * FAVORITES_PAGE_SIZE),
+    [favoriteIds, page]
+  )
+
+  // IDs on the current page that still need a details request
+  const pendingKey = pageIds
+    .filter(id => !resolved.has(id) && !movieCache.has(id) && !failedIds.has(id))
+    .join(',')
+
+  useEffect(() => {
+    if (!enabled || !pendingKey) return
+
+    const controller = new AbortController()
+    const ids = pendingKey.split(',')
+
+    Promise.all(ids.map(id => fetchMovieDetails(id, controller.signal))).then(details => {
+      if (controller.signal.aborted) return
+
+      setResolved(prev => {
+        const next = new Map(prev)
+        details.forEach(movie => {
+          if (movie) next.set(movie.id, movie)
+        })
+        return next
+      })
+
+      const failed = ids.filter((_, idx) => !details[idx])
+      if (failed.length > 0) {
+        setFailedIds(prev => new Set([...prev, ...failed]))
+      }
+    })
+
+    return () => controller.abort()
+  }, [enabled, pendingKey])
+
+  const movies = useMemo(() => pageIds.flatMap(id => {
+    const movie = resolved.get(id) || movieCache.get(id)
+    return movie ? [movie] : []
+  }), [pageIds, resolved])
+
+  const loading = enabled && !!pendingKey
+  // Movies on this page whose details couldn't be loaded
+  const failedCount = loading ? 0 : pageIds.filter(id => failedIds.has(id)).length
+  const error = movies.length === 0 && failedCount > 0
+    ? 'Failed to load favorites'
+    : null
+
+  // Handle page change
+  const handlePageChange = useCallback((nextPage: number) => {
+    if (nextPage >= 1 && nextPage <= totalPages) {
+      setCurrentPage(nextPage)
+      window.scrollTo({ top: 0, behavior: 'smooth' })
+    }
+  }, [totalPages])
+
+  // Retry the movies on this page whose details failed to load
+  const retry = useCallback(() => {
+    setFailedIds(prev => new Set([...prev].filter(id => !pageIds.includes(id))))
+  }, [pageIds])
+
+  const pageNumbers = useMemo(() => getPageNumbers(page, totalPages), [page, totalPages])
+
+  return {
+    movies,
+    loading,
+    error,
+    failedCount,
+    currentPage: page,
+    totalPages,
+    totalResults,
+    pageNumbers,
+    handlePageChange,
+    retry
+  }
+}
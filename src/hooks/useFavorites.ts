@@ -1,6 +1,8 @@
-import { useState, useCallback, useMemo, useEffect } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { useAuth } from '../context/AuthContext'
-import type { Movie } from '../types'
+import type { Movie, FavoritesSort } from '../types'
+import { movieCache } from '../lib/movieCache'
+import { getNumericRating, sortFavorites } from '../utils'
 
 export function useFavorites(movies: Movie[]) {
   const { 
@@ -8,17 +10,28 @@ export function useFavorites(movies: Movie[]) {
     loading: authLoading, 
     cloudFavorites, 
     localFavorites,
+    favoriteSyncStatus,
+    loadingMoreFavorites,
+    favoritesShare,
+    shareFavorites,
+    revokeFavoritesShare,
+    verificationRequired,
+    sendVerificationEmail,
     addToCloudFavorites, 
     removeFromCloudFavorites, 
     isMovieInCloudFavorites,
     addToLocalFavorites,
     removeFromLocalFavorites,
     syncLocalToCloud,
+    merging,
+    mergeSummary,
+    dismissMergeSummary,
     logout 
   } = useAuth()
 
   const [guestPromptOpen, setGuestPromptOpen] = useState(false)
   const [pendingFavoriteAction, setPendingFavoriteAction] = useState<{ movieId: string; movie?: Movie } | null>(null)
+  const [favoritesSort, setFavoritesSort] = useState<FavoritesSort>('added-desc')
 
   // Computed favorites list
   const favorites = useMemo(() => 
@@ -26,26 +39,28 @@ export function useFavorites(movies: Movie[]) {
     [user, cloudFavorites, localFavorites]
   )
 
-  // Sync local favorites to cloud when user logs in
-  useEffect(() => {
-    if (user && localFavorites.length > 0 && movies.length > 0) {
-      const movieData = new Map<string, { title: string; poster?: string; rating?: number }>()
-      movies.forEach(m => {
-        movieData.set(m.id, { 
-          title: m.title, 
-          poster: m.posterUrl, 
-          rating: m.rating ? parseFloat(m.rating) : undefined 
-        })
-      })
-      syncLocalToCloud(movieData)
-    }
-  }, [user, localFavorites.length, movies, syncLocalToCloud])
+  // Favorites page order. Guests only store IDs, so their titles and ratings come from the cache.
+  const sortedFavorites = useMemo(() => sortFavorites(
+    user
+      ? cloudFavorites.map((f, idx) => ({
+          movieId: f.movieId,
+          title: f.movieTitle,
+          rating: f.movieRating || undefined,
+          addedRank: cloudFavorites.length - idx
+        }))
+      : localFavorites.map((id, idx) => {
+          const movie = movieCache.get(id)
+          return { movieId: id, title: movie?.title, rating: getNumericRating(movie?.rating), addedRank: idx }
+        }),
+    favoritesSort
+  ), [user, cloudFavorites, localFavorites, favoritesSort])
 
   // Toggle favorite
   const toggleFavorite = useCallback((movieId: string, e?: React.MouseEvent) => {
     e?.stopPropagation()
     
-    const movie = movies.find(m => m.id === movieId)
+    // Favorites page movies may not be in the current grid, so fall back to the cache
+    const movie = movies.find(m => m.id === movieId) || movieCache.get(movieId)
     const isCurrentlyFavorite = user ? isMovieInCloudFavorites(movieId) : localFavorites.includes(movieId)
     
     if (isCurrentlyFavorite) {
@@ -59,7 +74,7 @@ export function useFavorites(movies: Movie[]) {
     
     if (user) {
       if (movie) {
-        addToCloudFavorites(movieId, movie.title, movie.posterUrl, movie.rating ? parseFloat(movie.rating) : undefined)
+        addToCloudFavorites(movieId, movie.title, movie.posterUrl, getNumericRating(movie.rating))
       }
     } else {
       setPendingFavoriteAction({ movieId, movie })
@@ -91,10 +106,24 @@ export function useFavorites(movies: Movie[]) {
     authLoading,
     cloudFavorites,
     favorites,
+    sortedFavorites,
+    favoritesSort,
+    setFavoritesSort,
+    loadingMoreFavorites,
+    favoritesShare,
+    shareFavorites,
+    revokeFavoritesShare,
+    verificationRequired,
+    sendVerificationEmail,
+    favoriteSyncStatus,
     toggleFavorite,
     logout,
     guestPromptOpen,
     closeGuestPrompt,
-    handleContinueAsGuest
+    handleContinueAsGuest,
+    merging,
+    mergeSummary,
+    retryMerge: syncLocalToCloud,
+    dismissMergeSummary
   }
 }
@@ -0,0 +1,116 @@
+import { useState, useCallback } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { moviesApi, NotFoundError } from '../lib/moviesApi'
+import { movieCache } from '../lib/movieCache'
+import {
+  parseFavoritesFile,
+  toFavoritesJson,
+  toFavoritesCsv,
+  downloadFile,
+  FavoritesImportError,
+  type FavoriteExportRow,
+  type FavoritesFileFormat
+} from '../lib/favoritesTransfer'
+import type { Movie } from '../types'
+import { toDateInputValue, getNumericRating } from '../utils'
+
+export interface FavoritesImportResult {
+  added: number
+  // Already in favorites
+  duplicates: number
+  // IDs the Movies API doesn't know
+  unknown: string[]
+  // IDs that couldn't be checked (network or server errors)
+  failed: string[]
+}
+
+// Export favorites to a file and import them back
+export function useFavoritesTransfer() {
+  const { user, cloudFavorites, localFavorites, addToCloudFavorites, addToLocalFavorites } = useAuth()
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<FavoritesImportResult | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const exportFavorites = useCallback((format: FavoritesFileFormat) => {
+    // Guest favorites are IDs only, so fill in what the cache knows
+    const rows: FavoriteExportRow[] = user
+      ? cloudFavorites.map(f => ({
+          id: f.movieId,
+          title: f.movieTitle,
+          poster: f.moviePoster || '',
+          rating: f.movieRating || null,
+          createdAt: f.createdAt
+        }))
+      : localFavorites.map(id => {
+          const movie = movieCache.get(id)
+          return {
+            id,
+            title: movie?.title || '',
+            poster: movie?.posterUrl || '',
+            rating: getNumericRating(movie?.rating) ?? null,
+            createdAt: ''
+          }
+        })
+
+    const fileName = `movie-favorites-${toDateInputValue()}.${format}`
+    if (format === 'csv') {
+      downloadFile(fileName, toFavoritesCsv(rows), 'text/csv;charset=utf-8')
+    } else {
+      downloadFile(fileName, toFavoritesJson(rows), 'application/json')
+    }
+  }, [user, cloudFavorites, localFavorites])
+
+  const importFavorites = useCallback(async (file: File) => {
+    setImporting(true)
+    setImportError(null)
+    setImportResult(null)
+    try {
+      const ids = parseFavoritesFile(file.name, await file.text())
+      const existing = new Set(user ? cloudFavorites.map(f => f.movieId) : localFavorites)
+      const newIds = ids.filter(id => !existing.has(id))
+
+      // Resolve every new ID so only real movies get added
+      const results = await Promise.all(newIds.map(async id => {
+        try {
+          return { id, movie: await moviesApi.getMovie(id) as Movie | null, notFound: false }
+        } catch (err) {
+          return { id, movie: null, notFound: err instanceof NotFoundError }
+        }
+      }))
+
+      const found = results.flatMap(r => r.movie ? [r.movie] : [])
+      for (const movie of found) {
+        if (user) {
+          await addToCloudFavorites(movie.id, movie.title, movie.posterUrl, getNumericRating(movie.rating))
+        } else {
+          addToLocalFavorites(movie.id)
+        }
+      }
+
+      setImportResult({
+        added: found.length,
+        duplicates: ids.length - newIds.length,
+        unknown: results.filter(r => !r.movie && r.notFound).map(r => r.id),
+        failed: results.filter(r => !r.movie && !r.notFound).map(r => r.id)
+      })
+    } catch (err) {
+      setImportError(err instanceof FavoritesImportError ? err.message : 'Could not read the file')
+    } finally {
+      setImporting(false)
+    }
+  }, [user, cloudFavorites, localFavorites, addToCloudFavorites, addToLocalFavorites])
+
+  const dismissImport = useCallback(() => {
+    setImportResult(null)
+    setImportError(null)
+  }, [])
+
+  return {
+    exportFavorites,
+    importFavorites,
+    importing,
+    importResult,
+    importError,
+    dismissImport
+  }
+}
@@ -0,0 +1,62 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { authService, type AccountIdentity } from '../lib/appwrite'
+
+interface IdentitiesResult {
+  userId: string
+  identities: AccountIdentity[]
+  error: string | null
+}
+
+// OAuth providers linked to the current account, for the account page
+export function useIdentities() {
+  const { user } = useAuth()
+  const [result, setResult] = useState<IdentitiesResult | null>(null)
+  const [reloadCount, setReloadCount] = useState(0)
+  const [unlinking, setUnlinking] = useState<string | null>(null)
+  const userId = user?.$id ?? null
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    authService.listIdentities()
+      .then(identities => ({ userId, identities, error: null }))
+      .catch(err => {
+        console.error('Failed to list identities:', err)
+        return { userId, identities: [], error: 'Could not load connected accounts' }
+      })
+      .then(loaded => {
+        if (!cancelled) setResult(loaded)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, reloadCount])
+
+  const unlinkIdentity = useCallback(async (identityId: string) => {
+    setUnlinking(identityId)
+    try {
+      await authService.deleteIdentity(identityId)
+      return true
+    } catch (err) {
+      console.error('Failed to unlink identity:', err)
+      return false
+    } finally {
+      setUnlinking(null)
+      setReloadCount(count => count + 1)
+    }
+  }, [])
+
+  // Ignore identities left over from a previous user
+  const current = result?.userId === userId ? result : null
+
+  return {
+    identities: current?.identities ?? [],
+    loading: !!userId && !current,
+    error: current?.error ?? null,
+    unlinking,
+    unlinkIdentity
+  }
+}
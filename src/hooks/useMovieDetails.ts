@@ -0,0 +1,57 @@
+import { useState, useCallback, useEffect } from 'react'
+import type { Movie } from '../types'
+import { movieCache } from '../lib/movieCache'
+import { moviesApi, isAbortError, getMoviesErrorMessage, NotFoundError } from '../lib/moviesApi'
+
+interface MovieDetailsResult {
+  id: string
+  movie: Movie | null
+  error: string | null
+  notFound: boolean
+}
+
+// Load a single movie by ID, e.g. for the /movie/:id route
+export function useMovieDetails(movieId: string | null) {
+  const [result, setResult] = useState<MovieDetailsResult | null>(null)
+  const [retryCount, setRetryCount] = useState(0)
+
+  const cached = movieId ? movieCache.get(movieId) : undefined
+
+  useEffect(() => {
+    if (!movieId || movieCache.has(movieId)) return
+
+    const controller = new AbortController()
+    moviesApi.getMovie(movieId, { signal: controller.signal })
+      .then(movie => {
+        setResult({ id: movieId, movie, error: null, notFound: false })
+      })
+      .catch(err => {
+        if (isAbortError(err)) return
+        setResult({
+          id: movieId,
+          movie: null,
+          error: getMoviesErrorMessage(err, 'Failed to load movie'),
+          notFound: err instanceof NotFoundError
+        })
+      })
+
+    return () => controller.abort()
+  }, [movieId, retryCount])
+
+  // Ignore results left over from a previously viewed movie
+  const current = result?.id === movieId ? result : null
+  const movie = cached || current?.movie || null
+
+  const retry = useCallback(() => {
+    setResult(null)
+    setRetryCount(prev => prev + 1)
+  }, [])
+
+  return {
+    movie,
+    loading: !!movieId && !movie && !current,
+    error: movie ? null : current?.error ?? null,
+    notFound: current?.notFound ?? false,
+    retry
+  }
+}
@@ -0,0 +1,36 @@
+import { useState, useCallback, useMemo } from 'react'
+import { DEFAULT_MOVIE_FILTERS } from '../constants'
+import type { Movie, MovieFilters } from '../types'
+import { applyMovieFilters, countActiveFilters, getRatingValue } from '../utils'
+
+// Client-side sort and filters for the loaded movies
+export function useMovieFilters(movies: Movie[]) {
+  const [filters, setFilters] = useState<MovieFilters>(DEFAULT_MOVIE_FILTERS)
+
+  const filteredMovies = useMemo(() => applyMovieFilters(movies, filters), [movies, filters])
+  const activeFilterCount = useMemo(() => countActiveFilters(filters), [filters])
+
+  // Ratings present in the loaded movies, lowest first
+  const ratingOptions = useMemo(() => {
+    const ratings = new Set<string>()
+    movies.forEach(m => {
+      if (m.rating && getRatingValue(m.rating) !== null) ratings.add(m.rating)
+    })
+    return [...ratings].sort((a, b) => getRatingValue(a)! - getRatingValue(b)!)
+  }, [movies])
+
+  const updateFilters = useCallback((changes: Partial<MovieFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }))
+  }, [])
+
+  const resetFilters = useCallback(() => setFilters(DEFAULT_MOVIE_FILTERS), [])
+
+  return {
+    filters,
+    updateFilters,
+    resetFilters,
+    filteredMovies,
+    activeFilterCount,
+    ratingOptions
+  }
+}
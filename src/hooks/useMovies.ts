@@ -1,7 +1,8 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react'
-import { API_BASE_URL } from '../constants'
-import type { Movie, MovieSummary } from '../types'
-import { movieCache } from '../utils'
+import { useLocation, useNavigate } from 'react-router-dom'
+import type { Movie, BrowseMode, GenreMatch } from '../types'
+import { getPageNumbers, parseBrowseParams, buildBrowseSearch, type BrowseParams } from '../utils'
+import { moviesApi, isAbortError, getMoviesErrorMessage } from '../lib/moviesApi'
 
 // Quick check for valid poster URLs
 const isPosterUrlLikelyValid = (url?: string): boolean => {
@@ -43,255 +44,385 @@ const validatePosterImage = (url: string, timeoutMs = 2000): Promise<boolean> =>
   })
 }
 
+// Priority for details of cards on screen - above any grid position
+const VISIBLE_CARD_PRIORITY = 1000
+
+// Local storage key for the paged/infinite preference
+const BROWSE_MODE_KEY = 'movieBrowseMode'
+
+// Get saved browse mode
+const getSavedBrowseMode = (): BrowseMode => {
+  try {
+    return localStorage.getItem(BROWSE_MODE_KEY) === 'infinite' ? 'infinite' : 'paged'
+  } catch {
+    return 'paged'
+  }
+}
+
+// Save browse mode
+const saveBrowseMode = (mode: BrowseMode) => {
+  try {
+    localStorage.setItem(BROWSE_MODE_KEY, mode)
+  } catch {
+    // Storage unavailable - the choice just won't persist
+  }
+}
+
 export function useMovies() {
-  const [token, setToken] = useState<string | null>(null)
+  const location = useLocation()
+  const navigate = useNavigate()
+  const isBrowsing = location.pathname === '/'
+
+  // Whether the movies API handed us a token yet
+  const [apiReady, setApiReady] = useState(false)
   const [movies, setMovies] = useState<Movie[]>([])
   const [loading, setLoading] = useState(true)
   const [loadingDetails, setLoadingDetails] = useState<Set<string>>(new Set())
   const [error, setError] = useState<string | null>(null)
-  const [searchQuery, setSearchQuery] = useState('')
-  const [selectedGenre, setSelectedGenre] = useState('')
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [totalResults, setTotalResults] = useState(0)
+  // Multi-genre results may be missing matches (see moviesApi.getMoviesByGenres)
+  const [resultsTruncated, setResultsTruncated] = useState(false)
   const [imageErrors, setImageErrors] = useState<Set<string>>(new Set())
+  const [browseMode, setBrowseModeState] = useState<BrowseMode>(getSavedBrowseMode)
+  // Highest page appended so far (infinite mode)
+  const [loadedThroughPage, setLoadedThroughPage] = useState(1)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null)
+  // Validated landing-page movies beyond the first 15 - shown with the next appended page
+  const [landingLeftovers, setLandingLeftovers] = useState<Movie[]>([])
+
+  // Browse state lives in the URL; keep the last one seen on the home route so
+  // visiting other pages (e.g. favorites) doesn't reset the grid
+  const [browseSearch, setBrowseSearch] = useState(isBrowsing ? location.search : '')
+  if (isBrowsing && location.search !== browseSearch) {
+    setBrowseSearch(location.search)
+  }
+  const { search: urlSearch, genres: urlGenres, genreMatch, page: urlPage } = useMemo(
+    () => parseBrowseParams(browseSearch),
+    [browseSearch]
+  )
+  // Keep the same array while the selection is unchanged so effects don't refire
+  const genresKey = urlGenres.join('|')
+  const selectedGenres = useMemo(() => (genresKey ? genresKey.split('|') : []), [genresKey])
+
+  // Search input value - written to the URL after a debounce
+  const [searchQuery, setSearchQuery] = useState(urlSearch)
+  // Last URL search synced into the input, so back/forward can restore it
+  const [syncedSearch, setSyncedSearch] = useState(urlSearch)
+  if (urlSearch !== syncedSearch) {
+    setSyncedSearch(urlSearch)
+    setSearchQuery(urlSearch)
+  }
   
   // Track if initial fetch has happened
   const hasFetched = useRef(false)
-  // Track previous values for change detection
-  const prevGenre = useRef(selectedGenre)
-  const prevSearch = useRef(searchQuery)
+  // Controller for the in-flight movies request
+  const abortRef = useRef<AbortController | null>(null)
+  // Generation of the latest movies request - older ones must not touch state
+  const requestIdRef = useRef(0)
+  // Search and genres of the latest list, for appending further pages
+  const lastQueryRef = useRef<{ search: string; genres: string[]; match: GenreMatch }>({ search: '', genres: [], match: 'any' })
 
-  // Fetch auth token - memoized
+  // Fetch auth token - memoized (later refreshes happen inside moviesApi)
   const fetchToken = useCallback(async () => {
     try {
-      const res = await fetch(`${API_BASE_URL}/auth/token`)
-      const data = await res.json()
-      setToken(data.token)
-      return data.token
-    } catch {
-      setError('Connection failed')
-      return null
+      await moviesApi.getAccessToken()
+      setApiReady(true)
+      return true
+    } catch (err) {
+      setError(getMoviesErrorMessage(err, 'Connection failed'))
+      return false
     }
   }, [])
 
   // Fetch single movie details
-  const fetchMovieDetails = useCallback(async (authToken: string, movieId: string): Promise<Movie | null> => {
-    if (movieCache.has(movieId)) {
-      return movieCache.get(movieId)!
-    }
-    
+  const fetchMovieDetails = useCallback(async (movieId: string, signal?: AbortSignal, priority?: number): Promise<Movie | null> => {
     try {
-      const res = await fetch(`${API_BASE_URL}/movies/${movieId}`, {
-        headers: { Authorization: `Bearer ${authToken}` }
-      })
-      if (!res.ok) return null
-      
-      const movie: Movie = await res.json()
-      movieCache.set(movieId, movie)
-      return movie
+      return await moviesApi.getMovie(movieId, { signal, priority })
     } catch {
       return null
     }
   }, [])
 
+  // Load details for listed movies, swapping each into the grid as it arrives.
+  // Details go through the shared request pool - cards higher up load first.
+  const loadDetailsProgressively = useCallback(async (ids: string[], signal: AbortSignal, isStale: () => boolean) => {
+    await Promise.all(ids.map(async (id, idx) => {
+      const detail = await fetchMovieDetails(id, signal, ids.length - idx)
+      if (isStale()) return
+
+      if (detail) {
+        setMovies(prev => prev.map(movie => movie.id === id ? detail : movie))
+      }
+      setLoadingDetails(prev => {
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    }))
+  }, [fetchMovieDetails])
+
   // Fetch movies list and their details
-  const fetchMovies = useCallback(async (authToken: string, page = 1, search = '', genre = '') => {
+  const fetchMovies = useCallback(async (page = 1, search = '', genres: string[] = [], match: GenreMatch = 'any') => {
+    // Cancel the previous request so it can't overwrite this one
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    const { signal } = controller
+    const requestId = ++requestIdRef.current
+    // Cached details and poster checks resolve even when aborted, so check both
+    const isStale = () => signal.aborted || requestId !== requestIdRef.current
+
+    lastQueryRef.current = { search, genres, match }
+
     setLoading(true)
     setError(null)
+    setLoadingMore(false)
+    setLoadMoreError(null)
+    setLandingLeftovers([])
     try {
-      const isLandingPage = page === 1 && !search && !genre
+      const isLandingPage = page === 1 && !search && genres.length === 0
       
       // Always use limit=15 for consistent pagination
-      const params = new URLSearchParams({ page: String(page), limit: '15' })
-      if (search) params.append('search', search)
-      if (genre) params.append('genre', genre)
+      const data = await moviesApi.getMoviesByGenres({ page, limit: 15, search, genres, match }, { signal })
+      if (isStale()) return
       
-      const res = await fetch(`${API_BASE_URL}/movies?${params}`, {
-        headers: { Authorization: `Bearer ${authToken}` }
-      })
-      if (!res.ok) throw new Error()
-      
-      const data = await res.json()
-      
-      setTotalPages(data.totalPages || data.pages || 1)
-      // Handle different possible field names for total count
-      const totalCount = data.total || data.totalResults || data.totalCount || data.count || (data.data?.length * (data.totalPages || 1)) || 0
-      setTotalResults(totalCount)
+      setTotalPages(data.totalPages)
+      setTotalResults(data.total)
+      setResultsTruncated(!!data.truncated)
       setCurrentPage(page)
+      setLoadedThroughPage(page)
       setImageErrors(new Set())
       
       // For landing page, also fetch page 2 to have more movies for poster validation
-      let allSummaries = data.data || []
-      if (isLandingPage && (data.totalPages || 1) > 1) {
-        const page2Res = await fetch(`${API_BASE_URL}/movies?page=2&limit=15`, {
-          headers: { Authorization: `Bearer ${authToken}` }
-        })
-        if (page2Res.ok) {
-          const page2Data = await page2Res.json()
-          allSummaries = [...allSummaries, ...(page2Data.data || [])]
+      let allSummaries = data.data
+      if (isLandingPage && data.totalPages > 1) {
+        try {
+          const page2Data = await moviesApi.getMovies({ page: 2, limit: 15 }, { signal })
+          allSummaries = [...allSummaries, ...page2Data.data]
+          setLoadedThroughPage(2)
+        } catch (err) {
+          if (isAbortError(err)) throw err
         }
+        if (isStale()) return
       }
       
-      const movieSummaries: Movie[] = allSummaries.map((m: MovieSummary) => ({
+      const movieSummaries: Movie[] = allSummaries.map(m => ({
         id: m.id,
         title: m.title
       }))
       
       const movieIds = movieSummaries.map(m => m.id)
       
-      // For landing page, keep loading until we have all details
+      // For non-landing pages, show summaries now and fill in details progressively
       if (!isLandingPage) {
         setMovies(movieSummaries)
         setLoading(false)
         setLoadingDetails(new Set(movieIds))
+        await loadDetailsProgressively(movieIds, signal, isStale)
+        return
       }
       
-      const batchSize = 5
-      const allMoviesWithDetails: Movie[] = [...movieSummaries]
+      // For landing page, keep loading until we have all details
+      const details = await Promise.all(
+        movieIds.map((id, idx) => fetchMovieDetails(id, signal, movieIds.length - idx))
+      )
+      if (isStale()) return
+      const allMoviesWithDetails = movieSummaries.map((movie, idx) => details[idx] || movie)
       
-      for (let i = 0; i < movieIds.length; i += batchSize) {
-        const batch = movieIds.slice(i, i + batchSize)
-        const details = await Promise.all(
-          batch.map(id => fetchMovieDetails(authToken, id))
-        )
-        
-        // Update the allMoviesWithDetails array
-        batch.forEach((id, idx) => {
-          const detail = details[idx]
-          if (detail) {
-            const movieIndex = allMoviesWithDetails.findIndex(m => m.id === id)
-            if (movieIndex !== -1) {
-              allMoviesWithDetails[movieIndex] = detail
-            }
-          }
-        })
-        
-        // For non-landing pages, update progressively
-        if (!isLandingPage) {
-          setMovies(prev => prev.map(movie => {
-            const detail = details.find(d => d?.id === movie.id)
-            return detail || movie
-          }))
-          
-          setLoadingDetails(prev => {
-            const next = new Set(prev)
-            batch.forEach(id => next.delete(id))
-            return next
-          })
-        }
-      }
+      // Validate posters actually load - first a quick filter for valid-looking URLs
+      const candidates = allMoviesWithDetails.filter(m => 
+        m.posterUrl && isPosterUrlLikelyValid(m.posterUrl)
+      )
       
-      // For landing page, validate posters actually load and filter
-      if (isLandingPage) {
-        // First quick filter for valid-looking URLs
-        const candidates = allMoviesWithDetails.filter(m => 
-          m.posterUrl && isPosterUrlLikelyValid(m.posterUrl)
-        )
-        
-        // Validate ALL posters in parallel with timeout for speed
-        const validations = await Promise.all(
-          candidates.map(async (movie) => ({
-            movie,
-            valid: await validatePosterImage(movie.posterUrl!, 1500) // 1.5s timeout
-          }))
-        )
-        
-        // Filter to valid posters and take first 15
-        const validatedMovies = validations
-          .filter(v => v.valid)
-          .map(v => v.movie)
-          .slice(0, 15)
-        
-        setMovies(validatedMovies)
-        setLoading(false)
-        setLoadingDetails(new Set())
-      }
+      // Validate ALL posters in parallel with timeout for speed
+      const validations = await Promise.all(
+        candidates.map(async (movie) => ({
+          movie,
+          valid: await validatePosterImage(movie.posterUrl!, 1500) // 1.5s timeout
+        }))
+      )
+      if (isStale()) return
       
-    } catch {
-      setError('Failed to load movies')
+      // Filter to valid posters and show the first 15 - the rest come with the next page
+      const validatedMovies = validations
+        .filter(v => v.valid)
+        .map(v => v.movie)
+      
+      setMovies(validatedMovies.slice(0, 15))
+      setLandingLeftovers(validatedMovies.slice(15))
+      setLoading(false)
+      setLoadingDetails(new Set())
+    } catch (err) {
+      if (isAbortError(err) || isStale()) return
+      setError(getMoviesErrorMessage(err, 'Failed to load movies'))
       setLoading(false)
     }
-  }, [fetchMovieDetails])
+  }, [fetchMovieDetails, loadDetailsProgressively])
+
+  // Append the next page (infinite mode)
+  const loadMore = useCallback(async () => {
+    const controller = abortRef.current
+    if (!controller || loading || loadingMore) return
+
+    // Landing page movies already loaded go first, ahead of the next page
+    const appendMovies = (next: Movie[]) => setMovies(prev => {
+      const existing = new Set(prev.map(m => m.id))
+      return [...prev, ...next.filter(m => !existing.has(m.id))]
+    })
+    if (loadedThroughPage >= totalPages) {
+      appendMovies(landingLeftovers)
+      setLandingLeftovers([])
+      return
+    }
+
+    // Appending belongs to the current list - a new search makes it stale
+    const { signal } = controller
+    const requestId = requestIdRef.current
+    const isStale = () => signal.aborted || requestId !== requestIdRef.current
+    const page = loadedThroughPage + 1
+    const { search, genres, match } = lastQueryRef.current
+
+    setLoadingMore(true)
+    setLoadMoreError(null)
+    try {
+      const data = await moviesApi.getMoviesByGenres({ page, limit: 15, search, genres, match }, { signal })
+      if (isStale()) return
+
+      const summaries: Movie[] = data.data.map(m => ({ id: m.id, title: m.title }))
+      appendMovies([...landingLeftovers, ...summaries])
+      setLandingLeftovers([])
+      setLoadingDetails(prev => new Set([...prev, ...summaries.map(m => m.id)]))
+      setLoadedThroughPage(page)
+      setTotalPages(data.totalPages)
+      setTotalResults(data.total)
+      setLoadingMore(false)
+
+      await loadDetailsProgressively(summaries.map(m => m.id), signal, isStale)
+    } catch (err) {
+      if (isAbortError(err) || isStale()) return
+      setLoadMoreError(getMoviesErrorMessage(err, 'Failed to load more movies'))
+      setLoadingMore(false)
+    }
+  }, [loading, loadingMore, loadedThroughPage, totalPages, landingLeftovers, loadDetailsProgressively])
+
+
+  // Load details for a card that scrolled into view before the rest
+  const prioritizeMovie = useCallback((movieId: string) => {
+    moviesApi.prioritizeMovie(movieId, VISIBLE_CARD_PRIORITY)
+  }, [])
 
   // Handle image error
   const handleImageError = useCallback((movieId: string) => {
     setImageErrors(prev => new Set(prev).add(movieId))
   }, [])
 
-  // Handle genre change
+  // Push new browse state to the URL (always lands on the home route)
+  const updateBrowseParams = useCallback((changes: Partial<BrowseParams>) => {
+    const next = { search: urlSearch, genres: selectedGenres, genreMatch, page: 1, ...changes }
+    setSyncedSearch(next.search)
+    navigate({ pathname: '/', search: buildBrowseSearch(next) })
+  }, [urlSearch, selectedGenres, genreMatch, navigate])
+
+  // Select exactly one genre ('' clears the selection)
+  const selectGenre = useCallback((genre: string) => {
+    updateBrowseParams({ genres: genre ? [genre] : [] })
+  }, [updateBrowseParams])
+
+  // Handle genre change - adds or removes the genre from the selection ('' clears it)
   const handleGenreChange = useCallback((genre: string) => {
-    setSelectedGenre(prev => prev === genre ? '' : genre)
-  }, [])
+    if (!genre) return selectGenre('')
+    updateBrowseParams({
+      genres: selectedGenres.includes(genre)
+        ? selectedGenres.filter(g => g !== genre)
+        : [...selectedGenres, genre]
+    })
+  }, [selectedGenres, selectGenre, updateBrowseParams])
+
+  // Switch between matching any or all selected genres
+  const setGenreMatch = useCallback((match: GenreMatch) => {
+    updateBrowseParams({ genreMatch: match })
+  }, [updateBrowseParams])
+
+  // Switch between paged and infinite browsing (remembered across visits)
+  const setBrowseMode = useCallback((mode: BrowseMode) => {
+    setBrowseModeState(mode)
+    saveBrowseMode(mode)
+    // Infinite lists start from the first page, so drop the page from the URL
+    if (mode === 'infinite' && urlPage > 1) updateBrowseParams({ page: 1 })
+  }, [urlPage, updateBrowseParams])
 
   // Handle page change
   const handlePageChange = useCallback((page: number) => {
-    if (token && page >= 1 && page <= totalPages) {
-      fetchMovies(token, page, searchQuery, selectedGenre)
+    if (page >= 1 && page <= totalPages) {
+      updateBrowseParams({ page })
       window.scrollTo({ top: 0, behavior: 'smooth' })
     }
-  }, [token, totalPages, searchQuery, selectedGenre, fetchMovies])
+  }, [totalPages, updateBrowseParams])
 
   // Memoized page numbers
-  const pageNumbers = useMemo(() => {
-    const pages: number[] = []
-    const maxVisible = 5
-    let start = Math.max(1, currentPage - Math.floor(maxVisible / 2))
-    const end = Math.min(totalPages, start + maxVisible - 1)
-    if (end - start + 1 < maxVisible) start = Math.max(1, end - maxVisible + 1)
-    for (let i = start; i <= end; i++) pages.push(i)
-    return pages
-  }, [currentPage, totalPages])
-
-  // Initial fetch - runs once
+  const pageNumbers = useMemo(() => getPageNumbers(currentPage, totalPages), [currentPage, totalPages])
+
+  // Cancel any in-flight movies request on unmount
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  // Initial token fetch - runs once
   useEffect(() => {
     if (hasFetched.current) return
     hasFetched.current = true
-    
-    fetchToken().then(t => {
-      if (t) fetchMovies(t, 1, '', '')
-    })
-  }, [fetchToken, fetchMovies])
+    fetchToken()
+  }, [fetchToken])
 
-  // Search/genre effect - debounced
+  // Fetch whenever the URL browse state or mode changes (including back/forward).
+  // Infinite mode always starts from the first page.
+  const startPage = browseMode === 'infinite' ? 1 : urlPage
   useEffect(() => {
-    if (!token || !hasFetched.current) return
-    
-    // Check if search or genre actually changed
-    const genreChanged = prevGenre.current !== selectedGenre
-    const searchChanged = prevSearch.current !== searchQuery
-    
-    // Update refs
-    prevGenre.current = selectedGenre
-    prevSearch.current = searchQuery
-    
-    // Only fetch if something changed
-    if (!genreChanged && !searchChanged) return
-    
+    if (!apiReady) return
+    fetchMovies(startPage, urlSearch, selectedGenres, genreMatch)
+  }, [apiReady, startPage, urlSearch, selectedGenres, genreMatch, fetchMovies])
+
+  // Search input effect - debounced write to the URL
+  useEffect(() => {
+    const search = searchQuery.trim()
+    if (search === urlSearch) return
+
     const timeoutId = setTimeout(() => {
-      fetchMovies(token, 1, searchQuery, selectedGenre)
+      updateBrowseParams({ search })
     }, 300)
     return () => clearTimeout(timeoutId)
-  }, [searchQuery, selectedGenre, token, fetchMovies])
+  }, [searchQuery, urlSearch, updateBrowseParams])
 
   return {
-    token,
+    apiReady,
     movies,
     loading,
     loadingDetails,
     error,
     searchQuery,
     setSearchQuery,
-    selectedGenre,
-    setSelectedGenre: handleGenreChange,
+    selectedGenres,
+    toggleGenre: handleGenreChange,
+    selectGenre,
+    genreMatch,
+    setGenreMatch,
     currentPage,
     totalPages,
     totalResults,
+    resultsTruncated,
     imageErrors,
     handleImageError,
+    prioritizeMovie,
     handlePageChange,
     pageNumbers,
+    browseMode,
+    setBrowseMode,
+    loadMore,
+    hasMore: loadedThroughPage < totalPages || landingLeftovers.length > 0,
+    loadingMore,
+    loadMoreError,
     fetchMovies,
-    refetch: () => token && fetchMovies(token, 1, searchQuery, selectedGenre)
+    refetch: () => apiReady && fetchMovies(startPage, urlSearch, selectedGenres, genreMatch)
   }
 }
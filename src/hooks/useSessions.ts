@@ -0,0 +1,82 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { authService, type AccountSession } from '../lib/appwrite'
+
+interface SessionsResult {
+  userId: string
+  sessions: AccountSession[]
+  error: string | null
+}
+
+// Devices signed in to the current account, for the account page
+export function useSessions() {
+  const { user } = useAuth()
+  const [result, setResult] = useState<SessionsResult | null>(null)
+  const [reloadCount, setReloadCount] = useState(0)
+  const [revoking, setRevoking] = useState<string | null>(null)
+  const userId = user?.$id ?? null
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    authService.listSessions()
+      .then(sessions => ({ userId, sessions, error: null }))
+      .catch(err => {
+        console.error('Failed to list sessions:', err)
+        return { userId, sessions: [], error: 'Could not load your sessions' }
+      })
+      .then(loaded => {
+        if (!cancelled) setResult(loaded)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, reloadCount])
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), [])
+
+  // Sign out one other device
+  const revokeSession = useCallback(async (sessionId: string) => {
+    setRevoking(sessionId)
+    try {
+      await authService.deleteSession(sessionId)
+      return true
+    } catch (err) {
+      console.error('Failed to revoke session:', err)
+      return false
+    } finally {
+      setRevoking(null)
+      reload()
+    }
+  }, [reload])
+
+  // Sign out everywhere except this device
+  const revokeOtherSessions = useCallback(async () => {
+    setRevoking('others')
+    try {
+      await authService.deleteOtherSessions()
+      return true
+    } catch (err) {
+      console.error('Failed to revoke sessions:', err)
+      return false
+    } finally {
+      setRevoking(null)
+      reload()
+    }
+  }, [reload])
+
+  // Ignore sessions left over from a previous user
+  const current = result?.userId === userId ? result : null
+
+  return {
+    sessions: current?.sessions ?? [],
+    loading: !!userId && !current,
+    error: current?.error ?? null,
+    revoking,
+    revokeSession,
+    revokeOtherSessions,
+    reload
+  }
+}
@@ -0,0 +1,76 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { useAuth } from '../context/AuthContext'
+import { sharesService, type Favorite, type FavoritesShare } from '../lib/appwrite'
+
+interface SharedFavoritesResult {
+  token: string
+  share: FavoritesShare | null
+  favorites: Favorite[]
+  error: string | null
+}
+
+// Load a public favorites collection for the /share/:token page
+export function useSharedFavorites(token: string | null) {
+  const { user, cloudFavorites, localFavorites, addToCloudFavorites, addToLocalFavorites } = useAuth()
+  const [result, setResult] = useState<SharedFavoritesResult | null>(null)
+  const [retryCount, setRetryCount] = useState(0)
+  const [copied, setCopied] = useState<{ token: string; count: number } | null>(null)
+
+  useEffect(() => {
+    if (!token) return
+
+    let cancelled = false
+    const load = async () => {
+      const share = await sharesService.getShare(token)
+      if (!share) {
+        return { token, share: null, favorites: [], error: 'This collection is no longer shared' }
+      }
+      const favorites = await sharesService.getSharedFavorites(share)
+      return favorites
+        ? { token, share, favorites, error: null }
+        : { token, share, favorites: [], error: 'Failed to load shared favorites' }
+    }
+    load().then(loaded => {
+      if (!cancelled) setResult(loaded)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [token, retryCount])
+
+  // Ignore results left over from a previously viewed share
+  const current = result?.token === token ? result : null
+  const favorites = useMemo(() => current?.favorites ?? [], [current])
+  const movieIds = useMemo(() => favorites.map(f => f.movieId), [favorites])
+
+  // Add every shared movie the visitor doesn't have yet
+  const copyToMyFavorites = useCallback(() => {
+    if (!token) return
+    const existing = new Set(user ? cloudFavorites.map(f => f.movieId) : localFavorites)
+    const toAdd = favorites.filter(f => !existing.has(f.movieId))
+    for (const favorite of toAdd) {
+      if (user) {
+        addToCloudFavorites(favorite.movieId, favorite.movieTitle, favorite.moviePoster, favorite.movieRating || undefined)
+      } else {
+        addToLocalFavorites(favorite.movieId)
+      }
+    }
+    setCopied({ token, count: toAdd.length })
+  }, [token, user, cloudFavorites, localFavorites, favorites, addToCloudFavorites, addToLocalFavorites])
+
+  const retry = useCallback(() => {
+    setResult(null)
+    setRetryCount(prev => prev + 1)
+  }, [])
+
+  return {
+    share: current?.share ?? null,
+    movieIds,
+    loading: !!token && !current,
+    error: current?.error ?? null,
+    copyToMyFavorites,
+    copiedCount: copied?.token === token ? copied.count : null,
+    retry
+  }
+}
@@ -0,0 +1,10 @@
+import { useContext } from 'react'
+import { WatchedContext } from '../context/watched'
+
+export function useWatched() {
+  const context = useContext(WatchedContext)
+  if (!context) {
+    throw new Error('useWatched must be used within a WatchedProvider')
+  }
+  return context
+}
@@ -0,0 +1,10 @@
+import { useContext } from 'react'
+import { WatchlistsContext } from '../context/watchlists'
+
+export function useWatchlists() {
+  const context = useContext(WatchlistsContext)
+  if (!context) {
+    throw new Error('useWatchlists must be used within a WatchlistsProvider')
+  }
+  return context
+}
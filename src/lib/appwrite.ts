@@ -1,4 +1,4 @@
-import { Client, Account, Databases, ID, Query } from 'appwrite'
+import { Client, Account, Databases, ID, Query, AppwriteException, Permission, Role, type OAuthProvider } from 'appwrite'
 
 // Initialize Appwrite Client
 const client = new Client()
@@ -12,12 +12,42 @@ export const databases = new Databases(client)
 // Database and Collection IDs
 export const DATABASE_ID = 'movie-explorer-db'
 export const FAVORITES_COLLECTION_ID = 'user-favorites'
+export const WATCHLISTS_COLLECTION_ID = 'user-watchlists'
+export const WATCHLIST_ITEMS_COLLECTION_ID = 'watchlist-items'
+export const WATCHED_COLLECTION_ID = 'user-watched'
+export const FAVORITE_SHARES_COLLECTION_ID = 'favorite-shares'
+
+// Favorites, lists, list items and history are read in pages of this size (Appwrite
+// returns 25 by default), following the cursor until the last page
+const LIST_PAGE_LIMIT = 100
 
 // Auth Types
 export interface User {
   $id: string
   email: string
   name: string
+  emailVerification: boolean
+  // False for accounts created through OAuth or a magic link until they set one
+  hasPassword: boolean
+}
+
+// A signed-in device/browser, as listed on the account page
+export interface AccountSession {
+  $id: string
+  $createdAt: string
+  clientName: string
+  osName: string
+  deviceName: string
+  countryName: string
+  ip: string
+  current: boolean
+}
+
+// An OAuth provider linked to the account
+export interface AccountIdentity {
+  $id: string
+  provider: string
+  providerEmail: string
 }
 
 export interface Favorite {
@@ -30,6 +60,47 @@ export interface Favorite {
   createdAt: string
 }
 
+// A favorites document created, updated or deleted in any session
+export interface FavoriteChange {
+  type: 'create' | 'update' | 'delete'
+  favorite: Favorite
+}
+
+// A published favorites collection - the document ID is the share token
+export interface FavoritesShare {
+  $id: string
+  userId: string
+  ownerName: string
+  createdAt: string
+}
+
+export interface CloudWatchlist {
+  $id: string
+  userId: string
+  name: string
+  createdAt: string
+}
+
+export interface WatchlistItem {
+  $id: string
+  userId: string
+  listId: string
+  movieId: string
+  movieTitle: string
+  moviePoster?: string
+  createdAt: string
+}
+
+export interface WatchedMovie {
+  $id: string
+  userId: string
+  movieId: string
+  movieTitle: string
+  watchedOn: string
+  rating?: number | null
+  note?: string
+}
+
 // Check if we have a stored session indicator
 const SESSION_KEY = 'appwrite_session_active'
 
@@ -45,6 +116,25 @@ const setStoredSession = (active: boolean): void => {
   }
 }
 
+// Delete every document a user owns in a collection (used when deleting the account)
+const deleteUserDocuments = async (collectionId: string, userId: string) => {
+  for (;;) {
+    const response = await databases.listDocuments(
+      DATABASE_ID,
+      collectionId,
+      [Query.equal('userId', userId), Query.limit(100)]
+    )
+    if (response.documents.length === 0) return
+    for (const doc of response.documents) {
+      await databases.deleteDocument(DATABASE_ID, collectionId, doc.$id)
+    }
+  }
+}
+
+// Recovery/sign-in links whose secret expired or was already used
+export const isExpiredTokenError = (err: unknown): boolean =>
+  err instanceof AppwriteException && (err.type === 'user_invalid_token' || err.code === 401)
+
 // Auth Functions
 export const authService = {
   // Create new account
@@ -52,10 +142,13 @@ export const authService = {
     const newAccount = await account.create(ID.unique(), email, password, name)
     // Auto login after signup
     await this.login(email, password)
+    await this.sendVerificationEmailSafely()
     return {
       $id: newAccount.$id,
       email: newAccount.email,
-      name: newAccount.name
+      name: newAccount.name,
+      emailVerification: newAccount.emailVerification,
+      hasPassword: true
     }
   },
 
@@ -65,9 +158,11 @@ export const authService = {
     setStoredSession(true)
   },
 
-  // Send magic link
-  async sendMagicLink(email: string): Promise<void> {
-    const redirectUrl = `${window.location.origin}/`
+  // Send magic link. It opens /auth/callback, which signs in and returns to
+  // returnTo; the send time lets that page tell expired links from used ones.
+  async sendMagicLink(email: string, returnTo = window.location.pathname + window.location.search): Promise<void> {
+    const params = new URLSearchParams({ next: returnTo, sent: String(Date.now()) })
+    const redirectUrl = `${window.location.origin}/auth/callback?${params}`
     await account.createMagicURLToken(ID.unique(), email, redirectUrl)
   },
 
@@ -77,7 +172,59 @@ export const authService = {
     setStoredSession(true)
   },
 
-  // Send password recovery email
+  // Email the signed-in user a link to /verify-email (Appwrite adds userId/secret)
+  async sendVerificationEmail(): Promise<void> {
+    await account.createVerification(`${window.location.origin}/verify-email`)
+  },
+
+  // Account changes still succeed when the verification email can't be sent -
+  // the unverified-email banner offers to resend it
+  async sendVerificationEmailSafely(): Promise<void> {
+    try {
+      await this.sendVerificationEmail()
+    } catch (error) {
+      console.error('Failed to send verification email:', error)
+    }
+  },
+
+  // Complete verification from the emailed link
+  async confirmVerification(userId: string, secret: string): Promise<void> {
+    await account.updateVerification(userId, secret)
+  },
+
+  // Sign in (or, when already signed in, link the provider to the account) through
+  // Appwrite's OAuth flow. The browser leaves the app and comes back to /auth/oauth/*.
+  signInWithOAuth(provider: OAuthProvider, returnTo = window.location.pathname + window.location.search): void {
+    const params = new URLSearchParams({ next: returnTo, provider })
+    account.createOAuth2Session(
+      provider,
+      `${window.location.origin}/auth/oauth/success?${params}`,
+      `${window.location.origin}/auth/oauth/failure?${params}`
+    )
+  },
+
+  // Pick up the session Appwrite created before redirecting back
+  async completeOAuthSignIn(): Promise<User | null> {
+    setStoredSession(true)
+    return this.getCurrentUser()
+  },
+
+  // OAuth providers linked to the account
+  async listIdentities(): Promise<AccountIdentity[]> {
+    const response = await account.listIdentities()
+    return response.identities.map(identity => ({
+      $id: identity.$id,
+      provider: identity.provider,
+      providerEmail: identity.providerEmail
+    }))
+  },
+
+  // Unlink an OAuth provider
+  async deleteIdentity(identityId: string): Promise<void> {
+    await account.deleteIdentity(identityId)
+  },
+
+  // Send password recovery email (Appwrite adds userId/secret to the link)
   async forgotPassword(email: string): Promise<void> {
     const redirectUrl = `${window.location.origin}/reset-password`
     await account.createRecovery(email, redirectUrl)
@@ -88,6 +235,67 @@ export const authService = {
     await account.updateRecovery(userId, secret, password)
   },
 
+  // Change the display name
+  async updateName(name: string): Promise<User> {
+    const user = await account.updateName(name)
+    return { $id: user.$id, email: user.email, name: user.name, emailVerification: user.emailVerification, hasPassword: !!user.passwordUpdate }
+  },
+
+  // Change the email address - Appwrite asks for the current password to confirm it's the owner.
+  // The new address starts out unverified, so a verification email goes out right away.
+  async updateEmail(email: string, password: string): Promise<User> {
+    const user = await account.updateEmail(email, password)
+    await this.sendVerificationEmailSafely()
+    return { $id: user.$id, email: user.email, name: user.name, emailVerification: user.emailVerification, hasPassword: !!user.passwordUpdate }
+  },
+
+  // Change the password (the current one is required), or set a first one
+  // for accounts that don't have a password yet
+  async updatePassword(password: string, oldPassword?: string): Promise<User> {
+    const user = await account.updatePassword(password, oldPassword)
+    return { $id: user.$id, email: user.email, name: user.name, emailVerification: user.emailVerification, hasPassword: true }
+  },
+
+  // Devices and browsers currently signed in to the account
+  async listSessions(): Promise<AccountSession[]> {
+    const response = await account.listSessions()
+    return response.sessions.map(session => ({
+      $id: session.$id,
+      $createdAt: session.$createdAt,
+      clientName: session.clientName,
+      osName: session.osName,
+      deviceName: session.deviceName,
+      countryName: session.countryName,
+      ip: session.ip,
+      current: session.current
+    }))
+  },
+
+  // Sign out another device (this one signs out through logout)
+  async deleteSession(sessionId: string): Promise<void> {
+    await account.deleteSession(sessionId)
+  },
+
+  // Sign out every device except this one
+  async deleteOtherSessions(): Promise<void> {
+    const sessions = await this.listSessions()
+    await Promise.all(
+      sessions.filter(session => !session.current).map(session => account.deleteSession(session.$id))
+    )
+  },
+
+  // Delete the user's data, then deactivate the account. Appwrite doesn't let
+  // clients remove users outright, so the account is blocked instead and can't sign in again.
+  async deleteAccount(userId: string): Promise<void> {
+    await deleteUserDocuments(FAVORITE_SHARES_COLLECTION_ID, userId)
+    await deleteUserDocuments(FAVORITES_COLLECTION_ID, userId)
+    await deleteUserDocuments(WATCHLIST_ITEMS_COLLECTION_ID, userId)
+    await deleteUserDocuments(WATCHLISTS_COLLECTION_ID, userId)
+    await deleteUserDocuments(WATCHED_COLLECTION_ID, userId)
+    await account.updateStatus()
+    setStoredSession(false)
+  },
+
   // Logout
   async logout(): Promise<void> {
     try {
@@ -115,7 +323,9 @@ export const authService = {
       return {
         $id: user.$id,
         email: user.email,
-        name: user.name
+        name: user.name,
+        emailVerification: user.emailVerification,
+        hasPassword: !!user.passwordUpdate
       }
     } catch (error: unknown) {
       // Session is invalid or expired - clear the stored indicator
@@ -131,20 +341,118 @@ export const authService = {
   }
 }
 
+// Each (user, movie) pair maps to one document ID, so saving the same movie twice
+// (double clicks, several devices) hits the same document. Hashed to fit Appwrite's 36-char IDs.
+const getUserMovieDocumentId = async (prefix: string, userId: string, movieId: string): Promise<string> => {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${userId}:${movieId}`))
+  const hex = Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('')
+  return `${prefix}${hex.slice(0, 33)}`
+}
+
+const getFavoriteDocumentId = (userId: string, movieId: string) => getUserMovieDocumentId('fav', userId, movieId)
+
+// Read every document matching the queries, page by page. onPage is called with
+// everything loaded so far after each page that isn't the last one.
+const listAllDocuments = async <T extends { $id: string }>(
+  collectionId: string,
+  queries: string[],
+  onPage?: (documents: T[]) => Promise<void>
+): Promise<T[]> => {
+  const documents: T[] = []
+  let cursor: string | undefined
+  for (;;) {
+    const pageQueries = [...queries, Query.limit(LIST_PAGE_LIMIT)]
+    if (cursor) pageQueries.push(Query.cursorAfter(cursor))
+    const response = await databases.listDocuments(DATABASE_ID, collectionId, pageQueries)
+    const page = response.documents as unknown as T[]
+    documents.push(...page)
+    if (page.length < LIST_PAGE_LIMIT) return documents
+    await onPage?.([...documents])
+    cursor = page[page.length - 1].$id
+  }
+}
+
+// Read all of a user's favorite documents (newest first)
+const listFavoriteDocuments = (
+  userId: string,
+  onPage?: (favorites: Favorite[]) => Promise<void>
+): Promise<Favorite[]> =>
+  listAllDocuments<Favorite>(
+    FAVORITES_COLLECTION_ID,
+    [Query.equal('userId', userId), Query.orderDesc('createdAt')],
+    onPage
+  )
+
+// Split favorites into one document per movie and the duplicates of it. The
+// deterministic-ID document wins, otherwise the oldest (older data used random IDs).
+const splitDuplicateFavorites = async (userId: string, favorites: Favorite[]) => {
+  const kept = new Map<string, Favorite>()
+  for (const favorite of favorites) {
+    const current = kept.get(favorite.movieId)
+    if (!current) {
+      kept.set(favorite.movieId, favorite)
+      continue
+    }
+    const canonicalId = await getFavoriteDocumentId(userId, favorite.movieId)
+    const preferNew = current.$id !== canonicalId &&
+      (favorite.$id === canonicalId || favorite.createdAt < current.createdAt)
+    if (preferNew) kept.set(favorite.movieId, favorite)
+  }
+  const keptIds = new Set([...kept.values()].map(f => f.$id))
+  return {
+    unique: favorites.filter(f => keptIds.has(f.$id)),
+    duplicates: favorites.filter(f => !keptIds.has(f.$id))
+  }
+}
+
+// Favorite documents are private to their owner, plus readable by anyone while the
+// owner has a public share. Appwrite can't limit that to people holding the share
+// link - anyone can list a sharing user's favorites by userId.
+const getFavoritePermissions = (userId: string, isPublic: boolean): string[] => [
+  Permission.read(Role.user(userId)),
+  Permission.update(Role.user(userId)),
+  Permission.delete(Role.user(userId)),
+  ...(isPublic ? [Permission.read(Role.any())] : [])
+]
+
+// Open up (or lock down) every favorite document of a user
+const setFavoritesVisibility = async (userId: string, isPublic: boolean) => {
+  const permissions = getFavoritePermissions(userId, isPublic)
+  const favorites = await listFavoriteDocuments(userId)
+  for (const favorite of favorites) {
+    await databases.updateDocument(DATABASE_ID, FAVORITES_COLLECTION_ID, favorite.$id, undefined, permissions)
+  }
+}
+
 // Favorites Functions
 export const favoritesService = {
-  // Get user's favorites
-  async getFavorites(userId: string): Promise<Favorite[]> {
+  // Get user's favorites (one per movie, newest first) - null on failure so an error
+  // can't pass for an empty list. onPage reports the favorites loaded so far after
+  // each page, so long collections can be shown before the last page arrives.
+  async loadFavorites(userId: string, onPage?: (favorites: Favorite[]) => void): Promise<Favorite[] | null> {
     try {
-      const response = await databases.listDocuments(
-        DATABASE_ID,
-        FAVORITES_COLLECTION_ID,
-        [Query.equal('userId', userId), Query.orderDesc('createdAt')]
-      )
-      return response.documents as unknown as Favorite[]
+      const favorites = await listFavoriteDocuments(userId, onPage && (async loaded => {
+        onPage((await splitDuplicateFavorites(userId, loaded)).unique)
+      }))
+      return (await splitDuplicateFavorites(userId, favorites)).unique
     } catch {
       console.error('Error fetching favorites')
-      return []
+      return null
+    }
+  },
+
+  // Delete duplicate favorite documents left by older versions - returns how many were removed
+  async dedupeFavorites(userId: string): Promise<number> {
+    try {
+      const favorites = await listFavoriteDocuments(userId)
+      const { duplicates } = await splitDuplicateFavorites(userId, favorites)
+      for (const favorite of duplicates) {
+        await databases.deleteDocument(DATABASE_ID, FAVORITES_COLLECTION_ID, favorite.$id)
+      }
+      return duplicates.length
+    } catch {
+      console.error('Error removing duplicate favorites')
+      return 0
     }
   },
 
@@ -154,23 +462,36 @@ export const favoritesService = {
     movieId: string,
     movieTitle: string,
     moviePoster?: string,
-    movieRating?: number
+    movieRating?: number,
+    // Whether the user's favorites are currently shared publicly
+    isPublic = false
   ): Promise<Favorite | null> {
     try {
-      const doc = await databases.createDocument(
-        DATABASE_ID,
-        FAVORITES_COLLECTION_ID,
-        ID.unique(),
-        {
-          userId,
-          movieId,
-          movieTitle,
-          moviePoster: moviePoster || '',
-          movieRating: movieRating || 0,
-          createdAt: new Date().toISOString()
+      const documentId = await getFavoriteDocumentId(userId, movieId)
+      try {
+        const doc = await databases.createDocument(
+          DATABASE_ID,
+          FAVORITES_COLLECTION_ID,
+          documentId,
+          {
+            userId,
+            movieId,
+            movieTitle,
+            moviePoster: moviePoster || '',
+            movieRating: movieRating || 0,
+            createdAt: new Date().toISOString()
+          },
+          getFavoritePermissions(userId, isPublic)
+        )
+        return doc as unknown as Favorite
+      } catch (err) {
+        // Already saved (another tab, device or click) - that's the favorite
+        if (err instanceof AppwriteException && err.code === 409) {
+          const doc = await databases.getDocument(DATABASE_ID, FAVORITES_COLLECTION_ID, documentId)
+          return doc as unknown as Favorite
         }
-      )
-      return doc as unknown as Favorite
+        throw err
+      }
     } catch {
       console.error('Error adding favorite')
       return null
@@ -188,7 +509,62 @@ export const favoritesService = {
     }
   },
 
-  // Check if movie is in favorites
+  // Listen for the user's favorites changing in other tabs or on other devices.
+  // Returns a function that stops listening.
+  subscribe(userId: string, onChange: (change: FavoriteChange) => void): () => void {
+    try {
+      return client.subscribe<Favorite>(
+        `databases.${DATABASE_ID}.collections.${FAVORITES_COLLECTION_ID}.documents`,
+        response => {
+          if (response.payload.userId !== userId) return
+          const type = response.events.some(event => event.endsWith('.delete'))
+            ? 'delete'
+            : response.events.some(event => event.endsWith('.create')) ? 'create' : 'update'
+          onChange({ type, favorite: response.payload })
+        }
+      )
+    } catch {
+      console.error('Error subscribing to favorites')
+      return () => {}
+    }
+  },
+
+  // Remove every document for a movie, including duplicates from older versions
+  async removeFavoriteByMovie(userId: string, movieId: string): Promise<boolean> {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        FAVORITES_COLLECTION_ID,
+        [Query.equal('userId', userId), Query.equal('movieId', movieId)]
+      )
+      for (const doc of response.documents) {
+        await databases.deleteDocument(DATABASE_ID, FAVORITES_COLLECTION_ID, doc.$id)
+      }
+      return true
+    } catch {
+      console.error('Error removing favorite')
+      return false
+    }
+  },
+
+  // The server's copy of one favorite - null when the movie isn't a favorite,
+  // undefined when the server couldn't be asked
+  async getFavoriteByMovie(userId: string, movieId: string): Promise<Favorite | null | undefined> {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        FAVORITES_COLLECTION_ID,
+        [Query.equal('userId', userId), Query.equal('movieId', movieId)]
+      )
+      const { unique } = await splitDuplicateFavorites(userId, response.documents as unknown as Favorite[])
+      return unique[0] ?? null
+    } catch {
+      console.error('Error checking favorite')
+      return undefined
+    }
+  },
+
+  // Check if movie is in favorites - returns the same document getFavorites keeps
   async isFavorite(userId: string, movieId: string): Promise<string | null> {
     try {
       const response = await databases.listDocuments(
@@ -196,10 +572,289 @@ export const favoritesService = {
         FAVORITES_COLLECTION_ID,
         [Query.equal('userId', userId), Query.equal('movieId', movieId)]
       )
-      return response.documents.length > 0 ? response.documents[0].$id : null
+      const { unique } = await splitDuplicateFavorites(userId, response.documents as unknown as Favorite[])
+      return unique[0]?.$id ?? null
+    } catch {
+      return null
+    }
+  }
+}
+
+// Public Favorites Sharing Functions
+export const sharesService = {
+  // Get the user's active share, if any
+  async getUserShare(userId: string): Promise<FavoritesShare | null> {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        FAVORITE_SHARES_COLLECTION_ID,
+        [Query.equal('userId', userId), Query.limit(1)]
+      )
+      return (response.documents[0] as unknown as FavoritesShare) ?? null
+    } catch {
+      console.error('Error fetching favorites share')
+      return null
+    }
+  },
+
+  // Look up a share by its token (null when it doesn't exist or was revoked)
+  async getShare(token: string): Promise<FavoritesShare | null> {
+    try {
+      const doc = await databases.getDocument(DATABASE_ID, FAVORITE_SHARES_COLLECTION_ID, token)
+      return doc as unknown as FavoritesShare
+    } catch {
+      return null
+    }
+  },
+
+  // Publish the user's favorites: create a share link and make the favorite documents
+  // readable by anyone. The token names the share in the URL but isn't a secret - share
+  // documents are readable (and listable) by anyone too, so every shared list is public.
+  async createShare(user: User): Promise<FavoritesShare | null> {
+    let share: FavoritesShare | null = null
+    try {
+      const doc = await databases.createDocument(
+        DATABASE_ID,
+        FAVORITE_SHARES_COLLECTION_ID,
+        crypto.randomUUID().replace(/-/g, ''),
+        {
+          userId: user.$id,
+          ownerName: user.name,
+          createdAt: new Date().toISOString()
+        },
+        [
+          Permission.read(Role.any()),
+          Permission.update(Role.user(user.$id)),
+          Permission.delete(Role.user(user.$id))
+        ]
+      )
+      share = doc as unknown as FavoritesShare
+      await setFavoritesVisibility(user.$id, true)
+      return share
+    } catch {
+      console.error('Error sharing favorites')
+      // Don't leave a link behind that shows a partial list
+      if (share) await sharesService.revokeShare(share)
+      return null
+    }
+  },
+
+  // Keep the owner name on the share page in step with the profile
+  async updateOwnerName(share: FavoritesShare, ownerName: string): Promise<FavoritesShare | null> {
+    try {
+      const doc = await databases.updateDocument(DATABASE_ID, FAVORITE_SHARES_COLLECTION_ID, share.$id, { ownerName })
+      return doc as unknown as FavoritesShare
+    } catch {
+      console.error('Error updating favorites share')
+      return null
+    }
+  },
+
+  // Make the favorites private again and delete the share link. Favorites go
+  // first so a failure leaves the share in place and the revoke can be retried.
+  async revokeShare(share: FavoritesShare): Promise<boolean> {
+    try {
+      await setFavoritesVisibility(share.userId, false)
+      await databases.deleteDocument(DATABASE_ID, FAVORITE_SHARES_COLLECTION_ID, share.$id)
+      return true
+    } catch {
+      console.error('Error revoking favorites share')
+      return false
+    }
+  },
+
+  // Favorites of a shared collection, as visible to anyone (one per movie, newest first)
+  async getSharedFavorites(share: FavoritesShare): Promise<Favorite[] | null> {
+    try {
+      const favorites = await listFavoriteDocuments(share.userId)
+      return (await splitDuplicateFavorites(share.userId, favorites)).unique
+    } catch {
+      console.error('Error fetching shared favorites')
+      return null
+    }
+  }
+}
+
+// Watchlist Functions
+export const watchlistsService = {
+  // Get user's lists - null on failure so an error can't pass for an empty account
+  async getWatchlists(userId: string): Promise<CloudWatchlist[] | null> {
+    try {
+      return await listAllDocuments<CloudWatchlist>(
+        WATCHLISTS_COLLECTION_ID,
+        [Query.equal('userId', userId), Query.orderAsc('createdAt')]
+      )
+    } catch {
+      console.error('Error fetching watchlists')
+      return null
+    }
+  },
+
+  // Get every item across the user's lists (null on failure)
+  async getWatchlistItems(userId: string): Promise<WatchlistItem[] | null> {
+    try {
+      return await listAllDocuments<WatchlistItem>(
+        WATCHLIST_ITEMS_COLLECTION_ID,
+        [Query.equal('userId', userId), Query.orderDesc('createdAt')]
+      )
+    } catch {
+      console.error('Error fetching watchlist items')
+      return null
+    }
+  },
+
+  // Create a list
+  async createWatchlist(userId: string, name: string): Promise<CloudWatchlist | null> {
+    try {
+      const doc = await databases.createDocument(
+        DATABASE_ID,
+        WATCHLISTS_COLLECTION_ID,
+        ID.unique(),
+        { userId, name, createdAt: new Date().toISOString() }
+      )
+      return doc as unknown as CloudWatchlist
     } catch {
+      console.error('Error creating watchlist')
       return null
     }
+  },
+
+  // Rename a list
+  async renameWatchlist(listId: string, name: string): Promise<boolean> {
+    try {
+      await databases.updateDocument(DATABASE_ID, WATCHLISTS_COLLECTION_ID, listId, { name })
+      return true
+    } catch {
+      console.error('Error renaming watchlist')
+      return false
+    }
+  },
+
+  // Delete a list along with its items
+  async deleteWatchlist(listId: string, itemIds: string[]): Promise<boolean> {
+    try {
+      await Promise.all(itemIds.map(id =>
+        databases.deleteDocument(DATABASE_ID, WATCHLIST_ITEMS_COLLECTION_ID, id)
+      ))
+      await databases.deleteDocument(DATABASE_ID, WATCHLISTS_COLLECTION_ID, listId)
+      return true
+    } catch {
+      console.error('Error deleting watchlist')
+      return false
+    }
+  },
+
+  // Add a movie to a list
+  async addItem(
+    userId: string,
+    listId: string,
+    movieId: string,
+    movieTitle: string,
+    moviePoster?: string
+  ): Promise<WatchlistItem | null> {
+    try {
+      const doc = await databases.createDocument(
+        DATABASE_ID,
+        WATCHLIST_ITEMS_COLLECTION_ID,
+        ID.unique(),
+        {
+          userId,
+          listId,
+          movieId,
+          movieTitle,
+          moviePoster: moviePoster || '',
+          createdAt: new Date().toISOString()
+        }
+      )
+      return doc as unknown as WatchlistItem
+    } catch {
+      console.error('Error adding to watchlist')
+      return null
+    }
+  },
+
+  // Remove a movie from a list
+  async removeItem(documentId: string): Promise<boolean> {
+    try {
+      await databases.deleteDocument(DATABASE_ID, WATCHLIST_ITEMS_COLLECTION_ID, documentId)
+      return true
+    } catch {
+      console.error('Error removing from watchlist')
+      return false
+    }
+  }
+}
+
+// Watched History Functions
+export const watchedService = {
+  // Get user's watched movies, most recent first - null on failure so an error
+  // can't pass for an empty history
+  async getWatched(userId: string): Promise<WatchedMovie[] | null> {
+    try {
+      return await listAllDocuments<WatchedMovie>(
+        WATCHED_COLLECTION_ID,
+        [Query.equal('userId', userId), Query.orderDesc('watchedOn')]
+      )
+    } catch {
+      console.error('Error fetching watched movies')
+      return null
+    }
+  },
+
+  // Mark a movie as watched. One document per movie - if another tab or a sync
+  // already saved it, that entry is returned unchanged.
+  async addWatched(
+    userId: string,
+    movieId: string,
+    movieTitle: string,
+    entry: { watchedOn: string; rating: number | null; note: string }
+  ): Promise<WatchedMovie | null> {
+    try {
+      const documentId = await getUserMovieDocumentId('wat', userId, movieId)
+      try {
+        const doc = await databases.createDocument(
+          DATABASE_ID,
+          WATCHED_COLLECTION_ID,
+          documentId,
+          { userId, movieId, movieTitle, ...entry }
+        )
+        return doc as unknown as WatchedMovie
+      } catch (err) {
+        if (err instanceof AppwriteException && err.code === 409) {
+          const doc = await databases.getDocument(DATABASE_ID, WATCHED_COLLECTION_ID, documentId)
+          return doc as unknown as WatchedMovie
+        }
+        throw err
+      }
+    } catch {
+      console.error('Error adding watched movie')
+      return null
+    }
+  },
+
+  // Update date, rating or note
+  async updateWatched(
+    documentId: string,
+    changes: Partial<{ watchedOn: string; rating: number | null; note: string }>
+  ): Promise<WatchedMovie | null> {
+    try {
+      const doc = await databases.updateDocument(DATABASE_ID, WATCHED_COLLECTION_ID, documentId, changes)
+      return doc as unknown as WatchedMovie
+    } catch {
+      console.error('Error updating watched movie')
+      return null
+    }
+  },
+
+  // Remove a movie from the history
+  async removeWatched(documentId: string): Promise<boolean> {
+    try {
+      await databases.deleteDocument(DATABASE_ID, WATCHED_COLLECTION_ID, documentId)
+      return true
+    } catch {
+      console.error('Error removing watched movie')
+      return false
+    }
   }
 }
 
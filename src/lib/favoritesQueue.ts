@@ -0,0 +1,85 @@
+// Offline queue for signed-in favorites changes. Mutations are applied to the
+// UI right away and replayed against Appwrite once the network is back.
+
+import type { Favorite } from './appwrite'
+import type { FavoriteSyncStatus } from '../types'
+
+export interface FavoriteMutation {
+  userId: string
+  movieId: string
+  type: 'add' | 'remove'
+  // Movie data needed to create the document on replay
+  title?: string
+  poster?: string
+  rating?: number
+  queuedAt: string
+  attempts: number
+  status: FavoriteSyncStatus
+}
+
+export const FAVORITES_QUEUE_KEY = 'favoritesQueue'
+
+// Give up (and show the change as failed) after this many replays
+export const MAX_REPLAY_ATTEMPTS = 3
+
+export const getQueuedMutations = (): FavoriteMutation[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(FAVORITES_QUEUE_KEY) || '[]')
+    return Array.isArray(data) ? data : []
+  } catch {
+    return []
+  }
+}
+
+export const saveQueuedMutations = (queue: FavoriteMutation[]) => {
+  localStorage.setItem(FAVORITES_QUEUE_KEY, JSON.stringify(queue))
+}
+
+// Identifies a mutation across re-reads of the stored queue
+export const getMutationKey = (mutation: FavoriteMutation) =>
+  `${mutation.userId}|${mutation.movieId}|${mutation.type}|${mutation.queuedAt}`
+
+// Add a mutation, keeping at most one per movie that hasn't been sent yet (plus the
+// one being replayed right now, if any). An add followed by a remove (or the reverse)
+// cancels out while neither has been sent. Once one is on its way to the server it
+// can't be taken back, so the opposite change is queued to run after it.
+export const enqueueMutation = (
+  queue: FavoriteMutation[],
+  mutation: FavoriteMutation,
+  // Keys of the mutations currently being replayed
+  inFlight: ReadonlySet<string> = new Set()
+): FavoriteMutation[] => {
+  const forMovie = queue.filter(m => m.userId === mutation.userId && m.movieId === mutation.movieId)
+  const sending = forMovie.find(m => inFlight.has(getMutationKey(m)))
+  const existing = forMovie.find(m => m !== sending)
+  const rest = queue.filter(m => m !== existing)
+  if (existing?.status === 'pending' && existing.type !== mutation.type) return rest
+  // Same change as the one being sent - nothing left to do
+  if (!existing && sending?.type === mutation.type) return queue
+  return [...rest, mutation]
+}
+
+// Server favorites with the user's pending changes applied on top (the latest change
+// per movie wins, e.g. a remove queued behind an add that's still being sent)
+export const applyPendingMutations = (favorites: Favorite[], queue: FavoriteMutation[]): Favorite[] => {
+  const latest = new Map(queue.filter(m => m.status === 'pending').map(m => [m.movieId, m]))
+  if (latest.size === 0) return favorites
+
+  const pending = [...latest.values()]
+  const removed = new Set(pending.filter(m => m.type === 'remove').map(m => m.movieId))
+  const saved = new Set(favorites.map(f => f.movieId))
+  const added: Favorite[] = pending
+    .filter(m => m.type === 'add' && !saved.has(m.movieId))
+    .map(m => ({
+      $id: `pending:${m.movieId}`,
+      userId: m.userId,
+      movieId: m.movieId,
+      movieTitle: m.title || '',
+      moviePoster: m.poster,
+      movieRating: m.rating,
+      createdAt: m.queuedAt
+    }))
+    .reverse()
+
+  return [...added, ...favorites.filter(f => !removed.has(f.movieId))]
+}
@@ -0,0 +1,135 @@
+// Favorites export/import file formats (JSON and CSV)
+
+export interface FavoriteExportRow {
+  id: string
+  title: string
+  poster: string
+  rating: number | null
+  createdAt: string
+}
+
+export type FavoritesFileFormat = 'json' | 'csv'
+
+export class FavoritesImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FavoritesImportError'
+  }
+}
+
+const CSV_COLUMNS: (keyof FavoriteExportRow)[] = ['id', 'title', 'poster', 'rating', 'createdAt']
+
+// Largest file we'll try to resolve in one go
+const MAX_IMPORT_ENTRIES = 1000
+
+// Spreadsheets run cells starting with these as formulas, so such cells get a leading '
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Neutralize formula-like values, then quote the field when it contains a delimiter, quote or newline
+const escapeCsvField = (value: string): string => {
+  const safe = CSV_FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+// Split CSV text into rows of fields (handles quoted fields)
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) throw new FavoritesImportError('The CSV file has an unclosed quote')
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(value => value.trim()))
+}
+
+export const toFavoritesJson = (rows: FavoriteExportRow[]): string => JSON.stringify(rows, null, 2)
+
+export const toFavoritesCsv = (rows: FavoriteExportRow[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(col => escapeCsvField(String(row[col] ?? ''))).join(','))
+  ].join('\r\n')
+
+// Read movie IDs from an exported file - accepts our own exports as well as
+// plain ID lists. Throws FavoritesImportError when the file can't be used.
+export const parseFavoritesFile = (fileName: string, text: string): string[] => {
+  const format: FavoritesFileFormat = fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'json'
+  let ids: string[]
+
+  if (format === 'json') {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch {
+      throw new FavoritesImportError('The file is not valid JSON')
+    }
+    // Also accept { favorites: [...] }
+    const entries = Array.isArray(data) ? data : (data as { favorites?: unknown })?.favorites
+    if (!Array.isArray(entries)) {
+      throw new FavoritesImportError('Expected a list of favorites')
+    }
+    ids = entries.map(entry => {
+      if (typeof entry === 'string') return entry
+      const record = entry as { id?: unknown; movieId?: unknown } | null
+      const id = record?.id ?? record?.movieId
+      return typeof id === 'string' || typeof id === 'number' ? String(id) : ''
+    })
+  } else {
+    const [header, ...rows] = parseCsv(text)
+    const idColumn = header?.findIndex(col => ['id', 'movieid'].includes(col.trim().toLowerCase())) ?? -1
+    if (idColumn === -1) {
+      throw new FavoritesImportError('The CSV file needs an "id" column')
+    }
+    // Undo the ' that export puts in front of formula-like values
+    ids = rows.map(row => (row[idColumn] ?? '').replace(/^'(?=[=+\-@\t\r])/, ''))
+  }
+
+  const unique = [...new Set(ids.map(id => id.trim()).filter(Boolean))]
+  if (unique.length === 0) throw new FavoritesImportError('No movie IDs found in the file')
+  if (unique.length > MAX_IMPORT_ENTRIES) {
+    throw new FavoritesImportError(`Files can contain at most ${MAX_IMPORT_ENTRIES} favorites`)
+  }
+  return unique
+}
+
+// Save text as a file download
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Some browsers start the download after click() returns, so release the URL afterwards
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,193 @@
+import type { Movie } from '../types'
+
+// IndexedDB store for movie details
+const DB_NAME = 'movie-explorer-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'movies'
+
+// Entries are fresh for a day, then served stale (and revalidated) for up to a week
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const CACHE_MAX_STALE_MS = 7 * 24 * 60 * 60 * 1000
+// Least recently used entries are evicted past this size
+const CACHE_MAX_ENTRIES = 500
+// Delay before access times are written back to IndexedDB
+const ACCESS_FLUSH_DELAY_MS = 2000
+
+interface CacheEntry {
+  id: string
+  movie: Movie
+  expiresAt: number
+  lastAccessed: number
+}
+
+export interface CachedMovie {
+  movie: Movie
+  stale: boolean
+}
+
+// Memory front - Map iteration order doubles as LRU order (oldest first)
+let memory = new Map<string, CacheEntry>()
+let dbPromise: Promise<IDBDatabase | null> | null = null
+let hydration: Promise<void> | null = null
+const pendingAccess = new Set<string>()
+let accessFlushTimer: ReturnType<typeof setTimeout> | null = null
+
+// Open the database (resolves null when IndexedDB is unavailable, e.g. private mode)
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null)
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => resolve(null)
+        request.onblocked = () => resolve(null)
+      } catch {
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// Run a request against the store, resolving null on failure
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> => {
+  const db = await openDatabase()
+  if (!db) return null
+
+  return new Promise(resolve => {
+    try {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => resolve(null)
+    } catch {
+      resolve(null)
+    }
+  })
+}
+
+const isStale = (entry: CacheEntry, now = Date.now()) => now > entry.expiresAt
+const isExpired = (entry: CacheEntry, now = Date.now()) => now > entry.expiresAt + CACHE_MAX_STALE_MS
+
+// Move an entry to the most recently used position
+const touch = (entry: CacheEntry) => {
+  entry.lastAccessed = Date.now()
+  memory.delete(entry.id)
+  memory.set(entry.id, entry)
+}
+
+// Write batched access times back so LRU order survives reloads
+const scheduleAccessFlush = (id: string) => {
+  pendingAccess.add(id)
+  if (accessFlushTimer) return
+
+  accessFlushTimer = setTimeout(() => {
+    accessFlushTimer = null
+    const ids = [...pendingAccess]
+    pendingAccess.clear()
+    ids.forEach(accessedId => {
+      const entry = memory.get(accessedId)
+      if (entry) withStore('readwrite', store => store.put(entry))
+    })
+  }, ACCESS_FLUSH_DELAY_MS)
+}
+
+// Remove an entry from memory and IndexedDB
+const remove = (id: string) => {
+  memory.delete(id)
+  withStore('readwrite', store => store.delete(id))
+}
+
+// Drop least recently used entries beyond the size limit
+const evict = () => {
+  while (memory.size > CACHE_MAX_ENTRIES) {
+    const oldest = memory.keys().next().value
+    if (oldest === undefined) break
+    remove(oldest)
+  }
+}
+
+// Load persisted entries into memory (once)
+const hydrate = (): Promise<void> => {
+  if (!hydration) {
+    hydration = withStore<CacheEntry[]>('readonly', store => store.getAll()).then(entries => {
+      const now = Date.now()
+      const persisted = (entries || [])
+        .filter(entry => {
+          if (!isExpired(entry, now)) return true
+          withStore('readwrite', store => store.delete(entry.id))
+          return false
+        })
+        .sort((a, b) => a.lastAccessed - b.lastAccessed)
+
+      // Entries written since startup are newer than anything persisted
+      const next = new Map<string, CacheEntry>()
+      persisted.forEach(entry => next.set(entry.id, entry))
+      memory.forEach((entry, id) => {
+        next.delete(id)
+        next.set(id, entry)
+      })
+      memory = next
+      evict()
+    })
+  }
+  return hydration
+}
+
+// Movie Details Cache
+export const movieCache = {
+  // Wait for persisted entries to be loaded into memory
+  ready(): Promise<void> {
+    return hydrate()
+  },
+
+  // Synchronous memory read - returns stale entries too
+  get(id: string): Movie | undefined {
+    const entry = memory.get(id)
+    if (!entry || isExpired(entry)) return undefined
+    touch(entry)
+    return entry.movie
+  },
+
+  has(id: string): boolean {
+    const entry = memory.get(id)
+    return !!entry && !isExpired(entry)
+  },
+
+  // Read through to IndexedDB, flagging entries past their TTL as stale
+  async read(id: string): Promise<CachedMovie | null> {
+    await hydrate()
+    const entry = memory.get(id)
+    if (!entry) return null
+    if (isExpired(entry)) {
+      remove(id)
+      return null
+    }
+
+    touch(entry)
+    scheduleAccessFlush(id)
+    return { movie: entry.movie, stale: isStale(entry) }
+  },
+
+  set(id: string, movie: Movie): void {
+    const now = Date.now()
+    const entry: CacheEntry = { id, movie, expiresAt: now + CACHE_TTL_MS, lastAccessed: now }
+    memory.delete(id)
+    memory.set(id, entry)
+    withStore('readwrite', store => store.put(entry))
+    evict()
+  },
+
+  // Remove everything from memory and IndexedDB
+  async clear(): Promise<void> {
+    memory.clear()
+    pendingAccess.clear()
+    await withStore('readwrite', store => store.clear())
+  }
+}
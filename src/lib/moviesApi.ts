@@ -0,0 +1,368 @@
+import { API_BASE_URL, MOVIE_DETAILS_CONCURRENCY } from '../constants'
+import type { Movie, MovieSummary, MoviesResponse, GenreMatch } from '../types'
+import { movieCache } from './movieCache'
+import { createRequestScheduler, type ScheduleOptions } from './requestScheduler'
+
+// Error Types
+export class MoviesApiError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'MoviesApiError'
+    this.status = status
+  }
+}
+
+export class AuthError extends MoviesApiError {
+  constructor(message = 'Not authorized', status = 401) {
+    super(message, status)
+    this.name = 'AuthError'
+  }
+}
+
+export class NotFoundError extends MoviesApiError {
+  constructor(message = 'Not found') {
+    super(message, 404)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class NetworkError extends MoviesApiError {
+  constructor(message = 'Network request failed') {
+    super(message)
+    this.name = 'NetworkError'
+  }
+}
+
+export class RateLimitError extends MoviesApiError {
+  // Seconds to wait before retrying, when the server tells us
+  retryAfter?: number
+
+  constructor(retryAfter?: number) {
+    super('Too many requests', 429)
+    this.name = 'RateLimitError'
+    this.retryAfter = retryAfter
+  }
+}
+
+// Request Types
+export interface RequestOptions {
+  signal?: AbortSignal
+}
+
+export interface MovieRequestOptions extends RequestOptions {
+  // Higher priority details load first (e.g. cards currently on screen)
+  priority?: number
+}
+
+export interface MoviesQuery {
+  page?: number
+  limit?: number
+  search?: string
+  genre?: string
+}
+
+export interface GenreMoviesQuery extends Omit<MoviesQuery, 'genre'> {
+  genres: string[]
+  match: GenreMatch
+}
+
+// Raw token response - expiresIn is in seconds when present
+interface RawTokenResponse {
+  token?: string
+  expiresIn?: number
+}
+
+// Raw list response - the API is inconsistent about pagination field names
+interface RawMoviesResponse {
+  data?: MovieSummary[]
+  page?: number
+  totalPages?: number
+  pages?: number
+  total?: number
+  totalResults?: number
+  totalCount?: number
+  count?: number
+}
+
+// Check if an error came from an aborted request
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError'
+
+// Map API errors to user-facing messages
+export const getMoviesErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof AuthError) return 'Your session expired. Please try again.'
+  if (error instanceof RateLimitError) return 'Too many requests. Please wait a moment and try again.'
+  if (error instanceof NetworkError) return 'Connection failed'
+  if (error instanceof NotFoundError) return 'Movie not found'
+  return fallback
+}
+
+// Normalize a list response into MoviesResponse
+export const normalizeMoviesResponse = (raw: RawMoviesResponse, requestedPage = 1): MoviesResponse => {
+  const data = Array.isArray(raw.data) ? raw.data.map(m => ({ id: m.id, title: m.title })) : []
+  const totalPages = raw.totalPages ?? raw.pages ?? 1
+  const total = raw.total ?? raw.totalResults ?? raw.totalCount ?? raw.count ?? data.length * totalPages
+
+  return {
+    data,
+    page: raw.page ?? requestedPage,
+    totalPages: Math.max(1, totalPages),
+    total
+  }
+}
+
+// Build an error from a failed response
+const toApiError = (res: Response): MoviesApiError => {
+  switch (res.status) {
+    case 401:
+    case 403:
+      return new AuthError(undefined, res.status)
+    case 404:
+      return new NotFoundError()
+    case 429: {
+      const retryAfter = parseInt(res.headers.get('Retry-After') || '', 10)
+      return new RateLimitError(isNaN(retryAfter) ? undefined : retryAfter)
+    }
+    default:
+      return new MoviesApiError(`Request failed with status ${res.status}`, res.status)
+  }
+}
+
+// Perform a request and parse JSON, translating failures into typed errors
+const request = async <T>(path: string, token: string | null, options: RequestOptions = {}): Promise<T> => {
+  let res: Response
+  try {
+    res = await fetch(`${API_BASE_URL}${path}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      signal: options.signal
+    })
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw new NetworkError()
+  }
+
+  if (!res.ok) throw toApiError(res)
+
+  try {
+    return await res.json() as T
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    throw new MoviesApiError('Invalid response from server', res.status)
+  }
+}
+
+// Token lifetime tracking
+// Refresh slightly early so a token doesn't expire mid-request
+const TOKEN_EXPIRY_MARGIN_MS = 30 * 1000
+// Assumed lifetime when neither the response nor the token says
+const DEFAULT_TOKEN_TTL_MS = 10 * 60 * 1000
+
+let currentToken: { token: string; expiresAt: number } | null = null
+// Shared refresh so concurrent requests only fetch one token
+let tokenRefresh: Promise<string> | null = null
+
+// Read expiry from the response, or from the token itself if it's a JWT
+const getTokenExpiry = (token: string, expiresIn?: number): number => {
+  if (expiresIn && expiresIn > 0) return Date.now() + expiresIn * 1000
+
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+    if (typeof payload.exp === 'number') return payload.exp * 1000
+  } catch {
+    // Not a JWT - fall back to the default lifetime
+  }
+  return Date.now() + DEFAULT_TOKEN_TTL_MS
+}
+
+// Perform an authorized request, refreshing the token and retrying once on 401
+const authorizedRequest = async <T>(path: string, options: RequestOptions = {}, retried = false): Promise<T> => {
+  const token = await moviesApi.getAccessToken()
+  try {
+    return await request<T>(path, token, options)
+  } catch (error) {
+    if (!retried && error instanceof AuthError && error.status === 401) {
+      moviesApi.invalidateToken(token)
+      return authorizedRequest<T>(path, options, true)
+    }
+    throw error
+  }
+}
+
+// Shared pool for movie detail requests
+const detailsScheduler = createRequestScheduler(MOVIE_DETAILS_CONCURRENCY)
+
+// Fetch movie details through the pool (identical IDs share one request) and cache them
+const fetchMovieDetails = (movieId: string, options: ScheduleOptions = {}): Promise<Movie> =>
+  detailsScheduler.schedule(
+    movieId,
+    async signal => {
+      const movie = await authorizedRequest<Movie>(`/movies/${encodeURIComponent(movieId)}`, { signal })
+      movieCache.set(movieId, movie)
+      return movie
+    },
+    options
+  )
+
+// Background refreshes run below any request someone is waiting on
+const REVALIDATE_PRIORITY = -1
+
+// Refresh a stale cache entry without blocking the caller
+const revalidateMovie = (movieId: string) => {
+  fetchMovieDetails(movieId, { priority: REVALIDATE_PRIORITY }).catch(() => {
+    // Keep serving the stale entry
+  })
+}
+
+// Multi-genre lists - the API filters one genre at a time, so each genre's
+// list is collected in full and merged here
+const GENRE_LIST_PAGE_SIZE = 100
+const MAX_GENRE_LIST_PAGES = 20
+const GENRE_LIST_TTL_MS = 5 * 60 * 1000
+// Nothing shows until the genre lists arrive, so their pages go ahead of movie details
+const GENRE_LIST_PRIORITY = 2000
+
+const genreListCache = new Map<string, { movies: MovieSummary[]; truncated: boolean; expiresAt: number }>()
+
+// Fetch one page of a genre list through the shared request pool
+const fetchGenreListPage = (genre: string, search: string | undefined, page: number, options: RequestOptions = {}) =>
+  detailsScheduler.schedule(
+    `genre-list:${genre}|${search ?? ''}|${page}`,
+    signal => moviesApi.getMovies({ page, limit: GENRE_LIST_PAGE_SIZE, search, genre }, { signal }),
+    { priority: GENRE_LIST_PRIORITY, signal: options.signal }
+  )
+
+// Collect every movie for one genre - the first page gives the page count, the rest
+// load in parallel. Lists longer than MAX_GENRE_LIST_PAGES are cut off and flagged.
+const fetchGenreList = async (
+  genre: string,
+  search: string | undefined,
+  options?: RequestOptions
+): Promise<{ movies: MovieSummary[]; truncated: boolean }> => {
+  const first = await fetchGenreListPage(genre, search, 1, options)
+  const lastPage = Math.min(first.totalPages, MAX_GENRE_LIST_PAGES)
+  const rest = await Promise.all(
+    Array.from({ length: lastPage - 1 }, (_, i) => fetchGenreListPage(genre, search, i + 2, options))
+  )
+  return {
+    movies: [first, ...rest].flatMap(data => data.data),
+    truncated: first.totalPages > MAX_GENRE_LIST_PAGES
+  }
+}
+
+// Union (interleaved so every genre shows up early) or intersection of genre lists, without duplicates
+const mergeGenreLists = (lists: MovieSummary[][], match: GenreMatch): MovieSummary[] => {
+  if (match === 'all') {
+    const [first, ...rest] = lists
+    const others = rest.map(list => new Set(list.map(m => m.id)))
+    return first.filter(m => others.every(ids => ids.has(m.id)))
+  }
+
+  const seen = new Set<string>()
+  const merged: MovieSummary[] = []
+  const longest = Math.max(...lists.map(list => list.length))
+  for (let i = 0; i < longest; i++) {
+    lists.forEach(list => {
+      const movie = list[i]
+      if (movie && !seen.has(movie.id)) {
+        seen.add(movie.id)
+        merged.push(movie)
+      }
+    })
+  }
+  return merged
+}
+
+// Movies API Functions
+export const moviesApi = {
+  // Fetch a fresh auth token from the API
+  async getToken(options?: RequestOptions): Promise<string> {
+    const data = await request<RawTokenResponse>('/auth/token', null, options)
+    if (!data.token) throw new AuthError('No token in response')
+    currentToken = { token: data.token, expiresAt: getTokenExpiry(data.token, data.expiresIn) }
+    return data.token
+  },
+
+  // Get a valid token, refreshing it when missing or about to expire
+  async getAccessToken(): Promise<string> {
+    if (currentToken && currentToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return currentToken.token
+    }
+
+    if (!tokenRefresh) {
+      tokenRefresh = this.getToken().finally(() => {
+        tokenRefresh = null
+      })
+    }
+    return tokenRefresh
+  },
+
+  // Drop a token the server rejected (ignored if it has already been replaced)
+  invalidateToken(token?: string): void {
+    if (!token || currentToken?.token === token) {
+      currentToken = null
+    }
+  },
+
+  // List movies with search, genre and pagination
+  async getMovies(query: MoviesQuery = {}, options?: RequestOptions): Promise<MoviesResponse> {
+    const page = query.page ?? 1
+    const params = new URLSearchParams({ page: String(page), limit: String(query.limit ?? 15) })
+    if (query.search) params.append('search', query.search)
+    if (query.genre) params.append('genre', query.genre)
+
+    const raw = await authorizedRequest<RawMoviesResponse>(`/movies?${params}`, options)
+    return normalizeMoviesResponse(raw, page)
+  },
+
+  // List movies matching several genres - one genre goes straight to the API,
+  // more are fetched per genre and merged/paginated client-side
+  async getMoviesByGenres(query: GenreMoviesQuery, options?: RequestOptions): Promise<MoviesResponse> {
+    const { genres, match, ...rest } = query
+    if (genres.length <= 1) return this.getMovies({ ...rest, genre: genres[0] }, options)
+
+    const key = [rest.search ?? '', match, ...[...genres].sort()].join('|')
+    let cached = genreListCache.get(key)
+    if (!cached || cached.expiresAt <= Date.now()) {
+      const lists = await Promise.all(genres.map(genre => fetchGenreList(genre, rest.search, options)))
+      cached = {
+        movies: mergeGenreLists(lists.map(list => list.movies), match),
+        truncated: lists.some(list => list.truncated),
+        expiresAt: Date.now() + GENRE_LIST_TTL_MS
+      }
+      genreListCache.set(key, cached)
+    }
+
+    const page = rest.page ?? 1
+    const limit = rest.limit ?? 15
+    return {
+      data: cached.movies.slice((page - 1) * limit, page * limit),
+      page,
+      totalPages: Math.max(1, Math.ceil(cached.movies.length / limit)),
+      total: cached.movies.length,
+      truncated: cached.truncated
+    }
+  },
+
+  // Get movie details (served from cache when available, stale entries revalidate in the background)
+  async getMovie(movieId: string, options: MovieRequestOptions = {}): Promise<Movie> {
+    const cached = await movieCache.read(movieId)
+    if (cached) {
+      if (cached.stale) revalidateMovie(movieId)
+      return cached.movie
+    }
+
+    return fetchMovieDetails(movieId, options)
+  },
+
+  // Move a queued details request ahead of the rest
+  prioritizeMovie(movieId: string, priority: number): void {
+    detailsScheduler.prioritize(movieId, priority)
+  },
+
+  // Change how many detail requests may run at once
+  setDetailsConcurrency(concurrency: number): void {
+    detailsScheduler.setConcurrency(concurrency)
+  }
+}
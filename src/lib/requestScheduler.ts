@@ -0,0 +1,133 @@
+// Bounded concurrent request scheduler with deduplication and priorities
+
+export interface ScheduleOptions {
+  // Higher runs first; ties run in the order they were scheduled
+  priority?: number
+  signal?: AbortSignal
+}
+
+interface Job<T> {
+  key: string
+  task: (signal: AbortSignal) => Promise<T>
+  priority: number
+  order: number
+  controller: AbortController
+  subscribers: number
+  running: boolean
+  promise: Promise<T>
+  resolve: (value: T) => void
+  reject: (reason: unknown) => void
+}
+
+const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError')
+
+export function createRequestScheduler(initialConcurrency: number) {
+  let concurrency = Math.max(1, initialConcurrency)
+  let running = 0
+  let order = 0
+  // Queued and running jobs by key - identical keys share one request
+  const jobs = new Map<string, Job<unknown>>()
+
+  // Start queued jobs until the pool is full
+  const pump = () => {
+    while (running < concurrency) {
+      let job: Job<unknown> | null = null
+      for (const candidate of jobs.values()) {
+        if (candidate.running) continue
+        if (!job || candidate.priority > job.priority || (candidate.priority === job.priority && candidate.order < job.order)) {
+          job = candidate
+        }
+      }
+      if (!job) return
+
+      job.running = true
+      running++
+      job.task(job.controller.signal)
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          running--
+          if (jobs.get(job.key) === job) jobs.delete(job.key)
+          pump()
+        })
+    }
+  }
+
+  // Stop tracking a subscriber, cancelling the job once nobody is waiting on it
+  const unsubscribe = (job: Job<unknown>) => {
+    job.subscribers--
+    if (job.subscribers > 0) return
+
+    job.controller.abort()
+    if (!job.running) {
+      jobs.delete(job.key)
+      job.reject(createAbortError())
+    }
+  }
+
+  return {
+    // Run a task through the pool; callers with the same key share the result
+    schedule<T>(key: string, task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+      const { priority = 0, signal } = options
+      if (signal?.aborted) return Promise.reject(createAbortError())
+
+      let job = jobs.get(key) as Job<T> | undefined
+      if (job && !job.controller.signal.aborted) {
+        job.subscribers++
+        job.priority = Math.max(job.priority, priority)
+      } else {
+        let resolve!: (value: T) => void
+        let reject!: (reason: unknown) => void
+        const promise = new Promise<T>((res, rej) => {
+          resolve = res
+          reject = rej
+        })
+        // Nobody may be listening if every subscriber aborted
+        promise.catch(() => {})
+
+        job = {
+          key,
+          task,
+          priority,
+          order: order++,
+          controller: new AbortController(),
+          subscribers: 1,
+          running: false,
+          promise,
+          resolve,
+          reject
+        }
+        jobs.set(key, job as Job<unknown>)
+      }
+
+      const scheduled = job
+      pump()
+
+      if (!signal) return scheduled.promise
+
+      // Settle this caller early on abort without cancelling other subscribers
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          unsubscribe(scheduled as Job<unknown>)
+          reject(createAbortError())
+        }
+        signal.addEventListener('abort', onAbort, { once: true })
+        scheduled.promise
+          .then(resolve, reject)
+          .finally(() => signal.removeEventListener('abort', onAbort))
+      })
+    },
+
+    // Raise the priority of a queued job, e.g. when its card scrolls into view
+    prioritize(key: string, priority: number): void {
+      const job = jobs.get(key)
+      if (job && !job.running) {
+        job.priority = Math.max(job.priority, priority)
+      }
+    },
+
+    setConcurrency(value: number): void {
+      concurrency = Math.max(1, value)
+      pump()
+    }
+  }
+}
@@ -4,12 +4,18 @@ import { BrowserRouter } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
 import { AuthProvider } from './context/AuthContext.tsx'
+import { WatchlistsProvider } from './context/WatchlistsContext.tsx'
+import { WatchedProvider } from './context/WatchedContext.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
       <AuthProvider>
-        <App />
+        <WatchlistsProvider>
+          <WatchedProvider>
+            <App />
+          </WatchedProvider>
+        </WatchlistsProvider>
       </AuthProvider>
     </BrowserRouter>
   </StrictMode>,
@@ -29,6 +29,62 @@ export interface MoviesResponse {
   totalPages: number
   page: number
   total: number
+  // Multi-genre results were combined from capped genre lists, so matches may be missing
+  truncated?: boolean
+}
+
+// Browsing types
+export type BrowseMode = 'paged' | 'infinite'
+// How several selected genres combine: any of them (OR) or all of them (AND)
+export type GenreMatch = 'any' | 'all'
+
+// Filter types
+export type SortOption =
+  | 'default'
+  | 'rating-desc'
+  | 'rating-asc'
+  | 'year-desc'
+  | 'year-asc'
+  | 'title-asc'
+  | 'title-desc'
+
+export interface MovieFilters {
+  sort: SortOption
+  yearMin: number | null
+  yearMax: number | null
+  minRating: string | null
+  runtimeMin: number | null // minutes
+  runtimeMax: number | null // minutes
+  genres: string[]
+}
+
+// Favorites page order
+export type FavoritesSort = 'added-desc' | 'added-asc' | 'title-asc' | 'rating-desc'
+
+// Sync state of a signed-in favorite change that hasn't reached the server
+export type FavoriteSyncStatus = 'pending' | 'failed'
+
+// Result of moving guest favorites into an account
+export interface FavoritesMergeSummary {
+  merged: number // newly added to the cloud
+  alreadySaved: number // were already in the cloud
+  unavailable: string[] // IDs the Movies API doesn't know - dropped
+  pending: string[] // couldn't be synced yet - kept on this device
+}
+
+// Watchlist types - the same shape for guest (local) and cloud lists
+export interface Watchlist {
+  id: string
+  name: string
+  movieIds: string[] // newest first
+}
+
+// Watched history - one entry per movie, same shape for guest and cloud
+export interface WatchedEntry {
+  movieId: string
+  watchedOn: string // local date, YYYY-MM-DD
+  rating: number | null // personal rating, 1-10
+  note: string
 }
 
 // Chat types
@@ -1,7 +1,5 @@
-import type { Movie } from '../types'
-
-// Cache for movie details
-export const movieCache = new Map<string, Movie>()
+import type { Movie, Genre, MovieFilters, GenreMatch, FavoritesSort } from '../types'
+import { MIN_PASSWORD_LENGTH, OAUTH_PROVIDER_NAMES } from '../constants'
 
 // Generate YouTube trailer search URL
 export const getTrailerUrl = (title: string, year?: number): string => {
@@ -27,8 +25,8 @@ export const formatRuntime = (m?: number): string | null => {
   return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
 }
 
-// Parse ISO 8601 duration (e.g., "PT2H2M", "PT1H30M", "PT42M")
-export const parseDuration = (duration?: string): string | null => {
+// Parse ISO 8601 duration into minutes (e.g., "PT2H2M" -> 122)
+export const parseDurationMinutes = (duration?: string): number | null => {
   if (!duration || typeof duration !== 'string') return null
   
   const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/)
@@ -38,7 +36,62 @@ export const parseDuration = (duration?: string): string | null => {
   const mins = parseInt(match[2] || '0', 10)
   
   if (hours === 0 && mins === 0) return null
-  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
+  return hours * 60 + mins
+}
+
+// Parse ISO 8601 duration (e.g., "PT2H2M", "PT1H30M", "PT42M")
+export const parseDuration = (duration?: string): string | null =>
+  formatRuntime(parseDurationMinutes(duration) ?? undefined)
+
+// Get runtime in minutes from either the ISO duration or the runtime field
+export const getRuntimeMinutes = (movie: Movie): number | null => {
+  const fromDuration = parseDurationMinutes(movie.duration)
+  if (fromDuration) return fromDuration
+  return movie.runtime && !isNaN(movie.runtime) && movie.runtime > 0 ? movie.runtime : null
+}
+
+// Numeric rating for favorites - content ratings like "PG-13" don't fit
+export const getNumericRating = (rating?: string): number | undefined => {
+  const value = rating ? parseFloat(rating) : NaN
+  return isNaN(value) ? undefined : value
+}
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4
+  label: string
+}
+
+// Rough password strength: length plus mixed case, digits and symbols
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (password.length < MIN_PASSWORD_LENGTH) return { score: 0, label: 'Too short' }
+  const variety = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z\d]/].filter(re => re.test(password)).length
+  const points = variety + (password.length >= 12 ? 1 : 0)
+  if (points <= 1) return { score: 1, label: 'Weak' }
+  if (points === 2) return { score: 2, label: 'Fair' }
+  if (points === 3) return { score: 3, label: 'Good' }
+  return { score: 4, label: 'Strong' }
+}
+
+// Display name for an OAuth provider ID (e.g. "github" -> "GitHub")
+export const getOAuthProviderName = (provider: string): string =>
+  OAUTH_PROVIDER_NAMES[provider] || provider.charAt(0).toUpperCase() + provider.slice(1)
+
+// Where to go after an auth redirect - only same-site paths, never back into an /auth/ page
+export const getReturnPath = (next: string | null): string =>
+  next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/auth/') ? next : '/'
+
+// Local calendar date as YYYY-MM-DD (the format of date inputs)
+export const toDateInputValue = (date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Format a YYYY-MM-DD date for display (e.g., "Mar 5, 2025")
+export const formatDate = (value: string): string => {
+  const [year, month, day] = value.split('-').map(Number)
+  if (!year || !month || !day) return value
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
 }
 
 // Get genre name from genre object or string
@@ -48,3 +101,147 @@ export const getGenreName = (g: string | { name?: string; title?: string }): str
   }
   return String(g)
 }
+
+// Get all genre names for a movie
+export const getMovieGenres = (movie: Movie): string[] =>
+  (movie.genres || [movie.genre])
+    .filter((g): g is string | Genre => !!g)
+    .map(getGenreName)
+
+// Content ratings in ascending order; numeric ratings are compared by value
+const CONTENT_RATING_ORDER = ['G', 'TV-Y', 'TV-Y7', 'TV-G', 'PG', 'TV-PG', 'PG-13', 'TV-14', 'R', 'TV-MA', 'NC-17']
+
+// Get a sortable value for a movie rating (null when unrated)
+export const getRatingValue = (rating?: string): number | null => {
+  if (!rating) return null
+  const numeric = parseFloat(rating)
+  if (!isNaN(numeric)) return numeric
+  const index = CONTENT_RATING_ORDER.indexOf(rating.trim().toUpperCase())
+  return index === -1 ? null : index
+}
+
+export interface FavoriteSortEntry {
+  movieId: string
+  title?: string
+  rating?: number
+  // Higher is more recently added
+  addedRank: number
+}
+
+// Order favorite IDs for the favorites page - entries missing a title or rating go last
+export const sortFavorites = (entries: FavoriteSortEntry[], sort: FavoritesSort): string[] => {
+  const sorted = [...entries].sort((a, b) => {
+    switch (sort) {
+      case 'added-asc':
+        return a.addedRank - b.addedRank
+      case 'title-asc':
+        if (!a.title || !b.title) return a.title ? -1 : b.title ? 1 : 0
+        return a.title.localeCompare(b.title)
+      case 'rating-desc':
+        return (b.rating ?? -1) - (a.rating ?? -1)
+      default:
+        return b.addedRank - a.addedRank
+    }
+  })
+  return sorted.map(entry => entry.movieId)
+}
+
+// Sort movies and filter by year, rating, runtime and genres
+export const applyMovieFilters = (movies: Movie[], filters: MovieFilters): Movie[] => {
+  const { yearMin, yearMax, minRating, runtimeMin, runtimeMax, genres } = filters
+  const minRatingValue = getRatingValue(minRating ?? undefined)
+
+  const filtered = movies.filter(movie => {
+    if (yearMin !== null || yearMax !== null) {
+      const year = getMovieYear(movie)
+      if (!year) return false
+      if (yearMin !== null && year < yearMin) return false
+      if (yearMax !== null && year > yearMax) return false
+    }
+
+    if (minRatingValue !== null) {
+      const rating = getRatingValue(movie.rating)
+      if (rating === null || rating < minRatingValue) return false
+    }
+
+    if (runtimeMin !== null || runtimeMax !== null) {
+      const runtime = getRuntimeMinutes(movie)
+      if (!runtime) return false
+      if (runtimeMin !== null && runtime < runtimeMin) return false
+      if (runtimeMax !== null && runtime > runtimeMax) return false
+    }
+
+    if (genres.length > 0) {
+      const movieGenres = getMovieGenres(movie).map(g => g.toLowerCase())
+      if (!genres.every(g => movieGenres.includes(g.toLowerCase()))) return false
+    }
+
+    return true
+  })
+
+  if (filters.sort === 'default') return filtered
+
+  // Movies missing the sort field go last
+  const [field, direction] = filters.sort.split('-') as ['rating' | 'year' | 'title', 'asc' | 'desc']
+  const factor = direction === 'asc' ? 1 : -1
+  const valueOf = (movie: Movie): number | string | null => {
+    if (field === 'rating') return getRatingValue(movie.rating)
+    if (field === 'year') return getMovieYear(movie) || null
+    return movie.title.toLowerCase()
+  }
+
+  return [...filtered].sort((a, b) => {
+    const va = valueOf(a)
+    const vb = valueOf(b)
+    if (va === null) return vb === null ? 0 : 1
+    if (vb === null) return -1
+    if (typeof va === 'string' && typeof vb === 'string') return va.localeCompare(vb) * factor
+    return ((va as number) - (vb as number)) * factor
+  })
+}
+
+// Number of filters that narrow the list (sorting doesn't count)
+export const countActiveFilters = (filters: MovieFilters): number =>
+  [filters.yearMin, filters.yearMax, filters.minRating, filters.runtimeMin, filters.runtimeMax]
+    .filter(value => value !== null).length + filters.genres.length
+
+// Compute the window of page numbers shown in pagination controls
+export const getPageNumbers = (currentPage: number, totalPages: number, maxVisible = 5): number[] => {
+  const pages: number[] = []
+  let start = Math.max(1, currentPage - Math.floor(maxVisible / 2))
+  const end = Math.min(totalPages, start + maxVisible - 1)
+  if (end - start + 1 < maxVisible) start = Math.max(1, end - maxVisible + 1)
+  for (let i = start; i <= end; i++) pages.push(i)
+  return pages
+}
+
+// Browse state mirrored in the query string (e.g. /?q=alien&genre=Horror&genre=Comedy&match=all&page=3)
+export interface BrowseParams {
+  search: string
+  genres: string[]
+  genreMatch: GenreMatch
+  page: number
+}
+
+// Read browse state from a query string
+export const parseBrowseParams = (search: string): BrowseParams => {
+  const params = new URLSearchParams(search)
+  const page = parseInt(params.get('page') || '1', 10)
+  return {
+    search: params.get('q') || '',
+    genres: [...new Set(params.getAll('genre').filter(Boolean))],
+    genreMatch: params.get('match') === 'all' ? 'all' : 'any',
+    page: !isNaN(page) && page > 1 ? page : 1
+  }
+}
+
+// Build a query string from browse state, omitting defaults
+export const buildBrowseSearch = ({ search, genres, genreMatch, page }: BrowseParams): string => {
+  const params = new URLSearchParams()
+  if (search) params.set('q', search)
+  genres.forEach(genre => params.append('genre', genre))
+  if (genreMatch === 'all') params.set('match', 'all')
+  if (page > 1) params.set('page', String(page))
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}